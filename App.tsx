@@ -1,10 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Category, Article, TeamMember, UserState, EnhancedArticleContent, SubscriptionStatus, ToastMessage } from './types';
-import { APP_NAME, TAGLINE, ATTRIBUTION, FALLBACK_NEWS, LOGO_URL, TEAM, ASSET_LOGO_URL, SUBSCRIPTION_QR_URL, FALLBACK_ARTICLE_IMAGE } from './constants';
+import { Category, Article, MediaAttachment, TeamMember, UserState, EnhancedArticleContent, SubscriptionStatus, ToastMessage, FeedHealth, FeedHealthStatus, LanguageCode, ArticleTranslation } from './types';
+import { APP_NAME, TAGLINE, ATTRIBUTION, FALLBACK_NEWS, LOGO_URL, TEAM, ASSET_LOGO_URL, SUBSCRIPTION_QR_URL, FALLBACK_ARTICLE_IMAGE, BREAKING_NEWS_WINDOW_HOURS } from './constants';
+import { LANGUAGES, COMPANION_LANGUAGE, getLanguage, getLanguageLabel, getTtsVoice } from './languages';
 import * as GeminiService from './services/geminiService';
 import * as RssService from './services/rssService';
+import { getFeedHealthStatus } from './services/feedHealth';
+import { countSources } from './services/storyClustering';
 import { isSupabaseConfigured } from './services/supabaseClient';
+import { AudioDownloadFormat, createNarrationDownload, getAudioDownloadFormats } from './services/audioExport';
+import { createDeviceNarration, createPcmNarration, Narration, NarrationState, PLAYBACK_RATES } from './services/narrationPlayer';
 import { getEnv } from './utils/env';
+import { splitSentenceSpans } from './utils/speechChunks';
+import { formatArticleTime, isWithinWindow, sortByPublishedAt } from './utils/time';
 
 // --- Icons ---
 const IconCrown = () => (
@@ -62,6 +69,36 @@ const IconPlay = () => (
   </svg>
 );
 
+const IconPause = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+    <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 01.75-.75H9a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H7.5a.75.75 0 01-.75-.75V5.25zm7.5 0A.75.75 0 0115 4.5h1.5a.75.75 0 01.75.75v13.5a.75.75 0 01-.75.75H15a.75.75 0 01-.75-.75V5.25z" clipRule="evenodd" />
+  </svg>
+);
+
+const IconResume = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+    <path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.348c1.295.712 1.295 2.573 0 3.285L7.28 19.991c-1.25.687-2.779-.217-2.779-1.643V5.653z" clipRule="evenodd" />
+  </svg>
+);
+
+const IconDownload = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+  </svg>
+);
+
+const IconChevronLeft = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+  </svg>
+);
+
+const IconChevronRight = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+  </svg>
+);
+
 const IconImage = () => (
   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
     <path fillRule="evenodd" d="M1.5 6a2.25 2.25 0 012.25-2.25h16.5A2.25 2.25 0 0122.5 6v12a2.25 2.25 0 01-2.25 2.25H3.75A2.25 2.25 0 011.5 18V6zM3 16.06V18c0 .414.336.75.75.75h16.5A.75.75 0 0021 18v-1.94l-2.69-2.689a1.5 1.5 0 00-2.12 0l-.88.879.97.97a.75.75 0 11-1.06 1.06l-5.16-5.159a1.5 1.5 0 00-2.12 0L3 16.061zm10.125-7.81a1.125 1.125 0 112.25 0 1.125 1.125 0 01-2.25 0z" clipRule="evenodd" />
@@ -81,25 +118,6 @@ const IconExpand = () => (
   </svg>
 );
 
-const pcmToAudioBuffer = (
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number = 24000,
-  numChannels: number = 1
-): AudioBuffer => {
-  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.length / 2);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
 const ToastContainer = ({ toasts, removeToast }: { toasts: ToastMessage[], removeToast: (id: number) => void }) => {
     return (
         <div className="fixed top-20 right-4 z-[100] flex flex-col gap-2">
@@ -357,6 +375,143 @@ const AddGalleryModal = ({ onClose, onSuccess }: { onClose: () => void; onSucces
     );
 };
 
+const FEED_STATUS_STYLES: Record<FeedHealthStatus, string> = {
+    healthy: 'bg-green-900/40 text-green-400 border-green-800/50',
+    failing: 'bg-yellow-900/40 text-yellow-400 border-yellow-800/50',
+    quarantined: 'bg-red-900/40 text-red-400 border-red-800/50'
+};
+
+// Shared editor token (EDITOR_API_TOKEN on the server); unlocks editor-only actions such as regenerating AI output
+const EDITOR_TOKEN_KEY = 'editor_token';
+
+// Editors only: the feed list and cache stats stay locked until the server accepts the editor token
+const FeedHealthModal = ({ onClose }: { onClose: () => void }) => {
+    const [feeds, setFeeds] = useState<FeedHealth[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [editorToken, setEditorToken] = useState(() => localStorage.getItem(EDITOR_TOKEN_KEY) || '');
+    const [authError, setAuthError] = useState('');
+
+    const unlock = async (token: string) => {
+        if (!token.trim()) return;
+        setLoading(true);
+        setAuthError('');
+        try {
+            const result = await RssService.fetchFeedHealth(token.trim());
+            if (result) {
+                localStorage.setItem(EDITOR_TOKEN_KEY, token.trim());
+                setFeeds(result);
+            } else {
+                localStorage.removeItem(EDITOR_TOKEN_KEY);
+                setAuthError('That editor token was not accepted.');
+            }
+        } catch (e) {
+            setAuthError('Feed status is unavailable right now.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const forgetEditorToken = () => {
+        localStorage.removeItem(EDITOR_TOKEN_KEY);
+        setEditorToken('');
+        setFeeds(null);
+    };
+
+    useEffect(() => {
+        unlock(editorToken);
+    }, []);
+
+    const formatTime = (iso: string | null) => iso ? new Date(iso).toLocaleString() : '—';
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm">
+            <div className="relative bg-noir-900 border border-gold-600/50 rounded-2xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl">
+                <div className="flex items-center justify-between p-6 border-b border-zinc-800">
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-serif">Feed Status</h2>
+                        <p className="text-xs text-gray-500 mt-1">Sources failing 3 times in a row are quarantined and retried with backoff.</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white">
+                        <IconClose />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-6">
+                    {loading ? (
+                        <p className="text-gray-500 text-sm">Loading feed health...</p>
+                    ) : !feeds ? (
+                        <form onSubmit={(e) => { e.preventDefault(); unlock(editorToken); }} className="max-w-sm mx-auto flex flex-col gap-3 text-xs py-8">
+                            <label htmlFor="editor-token" className="text-gold-500 uppercase font-bold tracking-wider">Editor Token</label>
+                            <input
+                                id="editor-token"
+                                type="password"
+                                value={editorToken}
+                                onChange={(e) => setEditorToken(e.target.value)}
+                                className="bg-zinc-900 border border-zinc-700 text-white rounded-lg py-2 px-3 focus:border-gold-500 outline-none"
+                            />
+                            {authError && <p className="text-red-400">{authError}</p>}
+                            <button type="submit" className="px-3 py-2 rounded-lg border border-gold-600 text-gold-500 font-bold hover:bg-gold-600/10 transition">
+                                Unlock
+                            </button>
+                        </form>
+                    ) : (
+                        <table className="w-full text-left text-xs">
+                            <thead className="text-gold-500 uppercase tracking-wider">
+                                <tr className="border-b border-zinc-800">
+                                    <th className="py-2 pr-4">Feed</th>
+                                    <th className="py-2 pr-4">Status</th>
+                                    <th className="py-2 pr-4">Last Success</th>
+                                    <th className="py-2 pr-4">Failures</th>
+                                    <th className="py-2 pr-4">Avg Latency</th>
+                                    <th className="py-2 pr-4">Last Error</th>
+                                    <th className="py-2">Next Retry</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {feeds.map(feed => {
+                                    const status = getFeedHealthStatus(feed);
+                                    return (
+                                        <tr key={feed.feedUrl} className="border-b border-zinc-800/50 align-top">
+                                            <td className="py-2 pr-4">
+                                                <div className="text-white font-bold">{feed.category}</div>
+                                                <a href={feed.feedUrl} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-gold-400 break-all">
+                                                    {feed.feedUrl}
+                                                </a>
+                                            </td>
+                                            <td className="py-2 pr-4">
+                                                <span className={`px-2 py-0.5 rounded border uppercase ${FEED_STATUS_STYLES[status]}`}>{status}</span>
+                                            </td>
+                                            <td className="py-2 pr-4 text-gray-400">{formatTime(feed.lastSuccessAt)}</td>
+                                            <td className="py-2 pr-4 text-gray-400">{feed.consecutiveFailures}</td>
+                                            <td className="py-2 pr-4 text-gray-400">{feed.avgLatencyMs !== null ? `${feed.avgLatencyMs} ms` : '—'}</td>
+                                            <td className="py-2 pr-4 text-red-400/80 max-w-xs break-words">{feed.lastError || '—'}</td>
+                                            <td className="py-2 text-gray-400">{status === 'quarantined' ? formatTime(feed.retryAt) : '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {feeds && (
+                    <div className="px-6 py-3 border-t border-zinc-800 flex flex-wrap items-center gap-x-6 gap-y-1 text-[10px] text-gray-500 uppercase tracking-wider">
+                        {GeminiService.getMemoryCacheStats().map(stats => (
+                            <span key={stats.name}>
+                                <span className="text-gold-600/70 font-bold">{stats.name}</span>{' '}
+                                {(stats.bytes / 1048576).toFixed(1)} / {(stats.maxBytes / 1048576).toFixed(0)} MB · {stats.entries} items · {stats.hits} hits · {stats.evictions} evicted
+                            </span>
+                        ))}
+                        <button onClick={forgetEditorToken} className="ml-auto text-gold-500 font-bold hover:text-gold-400 transition">
+                            Forget Editor Token
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const PremiumModal = ({ onClose, onTrialStart, onPaymentComplete }: { onClose: () => void; onTrialStart: () => void; onPaymentComplete: () => void }) => {
   const [showQr, setShowQr] = useState(false);
 
@@ -440,14 +595,139 @@ const PremiumModal = ({ onClose, onTrialStart, onPaymentComplete }: { onClose: (
   );
 };
 
-const Lightbox = ({ article, onClose }: { article: Article; onClose: () => void }) => {
+const isVisualAttachment = (item: MediaAttachment) => item.kind === 'image' || item.kind === 'video' || item.kind === 'animation';
+const visualAttachments = (article: Article) => (article.attachments || []).filter(isVisualAttachment);
+const otherAttachments = (article: Article) => (article.attachments || []).filter(item => !isVisualAttachment(item));
+
+interface MediaCarouselProps {
+  items: MediaAttachment[];
+  title: string;
+  initialIndex?: number;
+  fullscreen?: boolean;
+  onExpand?: (index: number) => void;
+}
+
+// Swipeable-style viewer for albums; clicks never reach the card underneath
+const MediaCarousel = ({ items, title, initialIndex = 0, fullscreen = false, onExpand }: MediaCarouselProps) => {
+  const [index, setIndex] = useState(Math.min(initialIndex, items.length - 1));
+  const item = items[index];
+  const step = (delta: number) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIndex(i => (i + delta + items.length) % items.length);
+  };
+  const mediaClass = fullscreen
+    ? 'max-w-full max-h-[85vh] w-auto h-auto object-contain shadow-2xl bg-black rounded-lg border border-zinc-800'
+    : 'w-full h-full object-contain';
+
+  return (
+    <div className={fullscreen
+        ? 'relative flex items-center justify-center w-full'
+        : 'aspect-video w-full overflow-hidden relative bg-black border-b border-zinc-800 group/carousel'}>
+      {item.kind === 'image' ? (
+        <img
+          key={item.url}
+          src={item.url}
+          alt={`${title} (${index + 1}/${items.length})`}
+          width={item.width}
+          height={item.height}
+          className={mediaClass}
+          onError={(e) => { (e.target as HTMLImageElement).src = ASSET_LOGO_URL; }}
+        />
+      ) : (
+        <video
+          key={item.url}
+          src={item.url}
+          poster={item.thumbnailUrl}
+          width={item.width}
+          height={item.height}
+          controls
+          playsInline
+          autoPlay={fullscreen}
+          loop={item.kind === 'animation'}
+          muted={item.kind === 'animation'}
+          className={mediaClass}
+          onClick={(e) => e.stopPropagation()}
+        />
+      )}
+
+      {items.length > 1 && (
+        <>
+          <button onClick={step(-1)} aria-label="Previous" className="absolute left-2 top-1/2 -translate-y-1/2 bg-black/60 p-2 rounded-full text-white hover:bg-gold-600 hover:text-black transition z-10 backdrop-blur-sm">
+            <IconChevronLeft />
+          </button>
+          <button onClick={step(1)} aria-label="Next" className="absolute right-2 top-1/2 -translate-y-1/2 bg-black/60 p-2 rounded-full text-white hover:bg-gold-600 hover:text-black transition z-10 backdrop-blur-sm">
+            <IconChevronRight />
+          </button>
+          <span className="absolute top-2 left-2 bg-black/70 text-white text-[10px] px-2 py-0.5 rounded z-10">{index + 1}/{items.length}</span>
+          <div className={`absolute ${fullscreen ? '-bottom-6' : 'bottom-2'} left-1/2 -translate-x-1/2 flex gap-1.5 z-10`}>
+            {items.map((_, i) => (
+              <button
+                key={i}
+                onClick={(e) => { e.stopPropagation(); setIndex(i); }}
+                aria-label={`Show item ${i + 1}`}
+                className={`h-1.5 rounded-full transition-all ${i === index ? 'w-4 bg-gold-500' : 'w-1.5 bg-white/50'}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {onExpand && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onExpand(index); }}
+          className="absolute top-2 right-2 bg-black/60 p-2 rounded-full text-white opacity-0 group-hover/carousel:opacity-100 transition-opacity hover:bg-gold-600 hover:text-black z-10 backdrop-blur-sm"
+          title="Full Screen"
+        >
+          <IconExpand />
+        </button>
+      )}
+    </div>
+  );
+};
+
+const audioLabel = (item: MediaAttachment): string => {
+  if (item.kind === 'voice') return 'Voice note';
+  return [item.performer, item.title].filter(Boolean).join(' – ') || item.fileName || 'Audio';
+};
+
+// Audio players and file links for a post's non-visual attachments
+const AttachmentList = ({ items }: { items: MediaAttachment[] }) => (
+  <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+    {items.map((item, i) => item.kind === 'audio' || item.kind === 'voice' ? (
+      <div key={`${item.url}-${i}`} className="bg-zinc-950/60 border border-zinc-800 rounded-lg p-2">
+        <div className="flex items-center justify-between gap-2 text-[10px] text-gray-400 mb-1 px-1">
+          <span className="truncate">{audioLabel(item)}</span>
+          {item.duration !== undefined && <span className="tabular-nums shrink-0">{formatPlaybackTime(item.duration)}</span>}
+        </div>
+        <audio src={item.url} controls preload="none" className="w-full h-8" />
+      </div>
+    ) : (
+      <a
+        key={`${item.url}-${i}`}
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-xs text-gold-500 hover:text-gold-400 bg-zinc-950/60 border border-zinc-800 rounded-lg px-3 py-2 transition"
+      >
+        <IconLink />
+        <span className="truncate">{item.fileName || 'Open file'}</span>
+      </a>
+    ))}
+  </div>
+);
+
+const Lightbox = ({ article, initialIndex = 0, onClose }: { article: Article; initialIndex?: number; onClose: () => void }) => {
+    const visual = visualAttachments(article);
+    const other = otherAttachments(article);
     return (
         <div className="fixed inset-0 z-[60] bg-black/95 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
             <button onClick={onClose} className="absolute top-4 right-4 text-white hover:text-gold-500 p-2 z-10 bg-black/50 rounded-full transition-colors">
                 <IconClose />
             </button>
             <div className="w-full max-w-7xl max-h-[90vh] flex flex-col items-center justify-center relative" onClick={e => e.stopPropagation()}>
-                {article.mediaType === 'video' && article.videoUrl ? (
+                {visual.length > 1 ? (
+                    <MediaCarousel items={visual} title={article.title} initialIndex={initialIndex} fullscreen />
+                ) : article.mediaType === 'video' && article.videoUrl ? (
                     <video 
                         src={article.videoUrl} 
                         poster={article.imageUrl}
@@ -462,6 +742,11 @@ const Lightbox = ({ article, onClose }: { article: Article; onClose: () => void
                         className="max-w-full max-h-[85vh] object-contain shadow-2xl rounded-lg border border-zinc-800"
                     />
                 )}
+                {other.length > 0 && (
+                    <div className="w-full max-w-xl mt-8">
+                        <AttachmentList items={other} />
+                    </div>
+                )}
                 <div className="absolute bottom-4 left-0 right-0 text-center pointer-events-none">
                      <div className="inline-block bg-black/60 backdrop-blur-md px-6 py-3 rounded-full max-w-3xl border border-white/10">
                         <h3 className="text-white font-bold text-sm md:text-base line-clamp-1">{article.title}</h3>
@@ -472,224 +757,354 @@ const Lightbox = ({ article, onClose }: { article: Article; onClose: () => void
     )
 }
 
+// Modal tabs: the English article, its summary, or any registered language
+type ArticleTab = 'original' | 'summary' | LanguageCode;
+
 interface ArticleModalProps {
   article: Article;
   onClose: () => void;
   addToast: (title: string, message: string, type?: 'success' | 'info' | 'warning') => void;
 }
 
+const DOWNLOAD_FORMAT_LABELS: Record<AudioDownloadFormat, string> = {
+  opus: 'Opus (.ogg) · small, WhatsApp-ready',
+  wav: 'WAV · uncompressed',
+};
+
+const formatPlaybackTime = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+interface AudioPlayerProps {
+  state: NarrationState;
+  onToggle: () => void;
+  onSeek: (seconds: number) => void;
+  onRateChange: (rate: number) => void;
+  onStop: () => void;
+}
+
+const AudioPlayer = ({ state, onToggle, onSeek, onRateChange, onStop }: AudioPlayerProps) => {
+  const approx = state.estimated ? '~' : '';
+  return (
+    <div className="flex items-center gap-2 md:gap-3 w-full md:flex-1 md:ml-4">
+      <button
+        onClick={onToggle}
+        aria-label={state.status === 'playing' ? 'Pause' : 'Play'}
+        className="shrink-0 w-9 h-9 flex items-center justify-center rounded-full bg-black text-gold-500 border border-gold-600 hover:bg-gold-600/10 transition"
+      >
+        {state.status === 'loading' ? (
+          <span className="animate-spin h-4 w-4 border-2 border-gold-500 border-t-transparent rounded-full"></span>
+        ) : state.status === 'playing' ? <IconPause /> : <IconResume />}
+      </button>
+      <span className="text-[10px] text-gray-400 tabular-nums shrink-0">{formatPlaybackTime(state.position)}</span>
+      <input
+        type="range"
+        min={0}
+        max={state.duration || 0}
+        step={0.1}
+        value={Math.min(state.position, state.duration)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Seek"
+        className="flex-1 min-w-0 h-1 accent-gold-500 cursor-pointer"
+      />
+      <span className="text-[10px] text-gray-500 tabular-nums shrink-0" title={state.estimated ? 'Estimated' : undefined}>
+        -{approx}{formatPlaybackTime(state.duration - state.position)}
+      </span>
+      <select
+        value={state.rate}
+        onChange={(e) => onRateChange(Number(e.target.value))}
+        aria-label="Playback speed"
+        className="shrink-0 bg-zinc-900 border border-zinc-700 text-gold-500 text-xs py-1 px-1.5 rounded-md cursor-pointer"
+      >
+        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+      </select>
+      {state.engine === 'device' && (
+        <span className="hidden md:inline text-[10px] uppercase tracking-wider text-gray-500" title="Neural voice unavailable, using system voice">Device</span>
+      )}
+      <button onClick={onStop} aria-label="Stop" className="shrink-0 p-1.5 text-red-400 hover:text-red-300 transition">
+        <IconStop />
+      </button>
+    </div>
+  );
+};
+
+// OPTIMISTIC UI: the feed's own text, shown until the AI content arrives
+const feedContent = (article: Article): EnhancedArticleContent => ({
+  fullArticle: article.content || article.description || '',
+  summaryShort: article.summaryShort || article.description || '',
+  translations: Object.fromEntries(
+      Object.entries(article.descriptionTranslations || {}).map(([code, text]) => [code, { summary: text }])
+  ),
+});
+
 const ArticleModal: React.FC<ArticleModalProps> = ({ article, onClose, addToast }) => {
   const [loading, setLoading] = useState(false);
-  // OPTIMISTIC UI: Initialize with RSS data immediately so user sees something
-  const [enhancedContent, setEnhancedContent] = useState<EnhancedArticleContent | null>({
-    fullArticle: article.content || article.description || '',
-    summaryShort: article.summaryShort || article.description || '',
-    summaryRomanUrdu: article.descriptionRomanUrdu || '',
-    summaryUrdu: article.descriptionUrdu || '',
-    summaryHindi: article.descriptionHindi || '',
-    summaryTelugu: article.descriptionTelugu || '',
-    fullArticleRomanUrdu: article.descriptionRomanUrdu || '',
-    fullArticleUrdu: '',
-    fullArticleHindi: '',
-    fullArticleTelugu: '',
-  });
+  const [enhancedContent, setEnhancedContent] = useState<EnhancedArticleContent | null>(() => feedContent(article));
   
-  const [activeTab, setActiveTab] = useState<'original' | 'summary' | 'roman' | 'urdu' | 'hindi' | 'telugu'>('original');
-  const [playing, setPlaying] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const [audioLoading, setAudioLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<ArticleTab>('original');
+  const narrationRef = useRef<Narration | null>(null);
+  const [narration, setNarration] = useState<NarrationState | null>(null);
+  // The text being read; sentences are highlighted only while it is still what's on screen
+  const [narratedText, setNarratedText] = useState('');
+  const highlightRef = useRef<HTMLSpanElement | null>(null);
+  const [downloadFormats, setDownloadFormats] = useState<AudioDownloadFormat[]>(['wav']);
+  const [downloadMenuOpen, setDownloadMenuOpen] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [byline, setByline] = useState('');
+  // Translations run only after the English enhancement, and only for tabs the reader opens
+  const [englishReady, setEnglishReady] = useState(false);
+  const [translationStatus, setTranslationStatus] = useState<Record<LanguageCode, 'loading' | 'failed'>>({});
+  // Bumped by the editor "Regenerate" action to re-run the enhancement
+  const [generation, setGeneration] = useState(0);
+  const [regenerating, setRegenerating] = useState(false);
+  const editorToken = localStorage.getItem(EDITOR_TOKEN_KEY);
 
   useEffect(() => {
     // Background fetch for enhanced content (full article + translations)
     // Pass the FULL CONTENT if available, otherwise description
-    const textContext = article.content && article.content.length > article.description.length 
+    let textContext = article.content && article.content.length > article.description.length 
         ? article.content 
         : article.description;
 
     const fetchContent = async () => {
       setLoading(true);
       try {
-        const data = await GeminiService.enhanceArticle(article.id, article.title, textContext);
+        // Feed teasers are often one line; ground the AI on the publisher's full text when we can get it
+        const extracted = await RssService.fetchArticleText(article);
+        if (extracted) {
+            if (extracted.text.length > textContext.length) textContext = extracted.text;
+            setByline(extracted.byline);
+        }
+
+        const data = await GeminiService.enhanceArticle(article.id, article.title, textContext, partial => {
+            // Streamed text replaces the feed text as soon as the first checked sentence arrives
+            setEnhancedContent(prev => prev ? {
+                ...prev,
+                fullArticle: partial.fullArticle || prev.fullArticle,
+                summaryShort: partial.summaryShort || prev.summaryShort
+            } : prev);
+        });
         setEnhancedContent(prev => {
              // Only update if we have new data to avoid UI flickering for existing tabs
-             if (data.fullArticle === prev?.fullArticle && data.summaryUrdu === prev?.summaryUrdu) return prev;
+             if (data.fullArticle === prev?.fullArticle && data.translations === prev?.translations && data.grounding === prev?.grounding) return prev;
              return data;
         });
       } catch (e) {
         console.error("Failed to enhance", e);
       } finally {
         setLoading(false);
+        setEnglishReady(true);
       }
     };
     fetchContent();
-  }, [article]);
+  }, [article, generation]);
+
+  const handleRegenerate = async () => {
+    if (!editorToken) return;
+    setRegenerating(true);
+    try {
+      await GeminiService.purgeArticleContent(article.id, editorToken);
+      stopAudio();
+      setEnhancedContent(feedContent(article));
+      setTranslationStatus({});
+      setEnglishReady(false);
+      setGeneration(g => g + 1);
+      addToast("AI content purged", "Regenerating this article...", "success");
+    } catch (e: any) {
+      addToast("Regenerate failed", e?.message || "Could not purge cached AI content.", "warning");
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const translate = async (code: LanguageCode) => {
+    if (!enhancedContent) return;
+    setTranslationStatus(prev => ({ ...prev, [code]: 'loading' }));
+    try {
+      const setTranslation = (translation: ArticleTranslation) => {
+          setEnhancedContent(prev => prev ? { ...prev, translations: { ...prev.translations, [code]: translation } } : prev);
+      };
+      setTranslation(await GeminiService.translateArticle(article.id, enhancedContent, code, setTranslation));
+      setTranslationStatus(prev => {
+          const { [code]: _, ...rest } = prev;
+          return rest;
+      });
+    } catch (e) {
+      console.warn(`Translation to ${code} failed`, e);
+      // Drop any half-streamed text so the tab shows the failure instead
+      setEnhancedContent(prev => {
+          if (!prev) return prev;
+          const { [code]: _, ...rest } = prev.translations;
+          return { ...prev, translations: rest };
+      });
+      setTranslationStatus(prev => ({ ...prev, [code]: 'failed' }));
+    }
+  };
+
+  useEffect(() => {
+    const language = getLanguage(activeTab);
+    if (!language || !englishReady || translationStatus[language.code]) return;
+    if (enhancedContent?.translations[language.code]?.fullArticle) return;
+    translate(language.code);
+  }, [activeTab, englishReady]);
 
   const getContent = () => {
-      // Logic for 'roman' tab (keeps it dedicated if selected)
-      if (activeTab === 'roman') {
-          const summary = enhancedContent?.summaryRomanUrdu || article.descriptionRomanUrdu || "";
-          const full = enhancedContent?.fullArticleRomanUrdu || "";
-          
-          if (full) {
+      const language = getLanguage(activeTab);
+      if (language) {
+          const translation = enhancedContent?.translations[language.code];
+          const summary = translation?.summary || article.descriptionTranslations?.[language.code] || "";
+          const full = translation?.fullArticle || "";
+          if (!full && translationStatus[language.code] === 'failed') return language.unavailableText;
+
+          // Languages with headings show the summary above the full story
+          if (full && language.headings) {
              let content = "";
              if (summary && !full.startsWith(summary)) {
-                 content += `KHULASA (SUMMARY)\n${summary}\n\n`;
+                 content += `${language.headings.summary}\n${summary}\n\n`;
              }
-             content += `TAFSEELI KHABAR (FULL STORY)\n${full}`;
+             content += `${language.headings.fullArticle}\n${full}`;
              return content;
           }
-          return summary || "Generating Roman Urdu translation...";
+          return full || summary || `${language.name} translation generating...`;
       }
 
       const contentMap: Record<string, string> = {
           'original': enhancedContent?.fullArticle || article.content || article.description || "",
           'summary': enhancedContent?.summaryShort || article.summaryShort || "Summarizing...",
-          'urdu': enhancedContent?.fullArticleUrdu || enhancedContent?.summaryUrdu || article.descriptionUrdu || "Urdu translation generating...",
-          'hindi': enhancedContent?.fullArticleHindi || enhancedContent?.summaryHindi || article.descriptionHindi || "Hindi translation generating...",
-          'telugu': enhancedContent?.fullArticleTelugu || enhancedContent?.summaryTelugu || article.descriptionTelugu || "Telugu translation generating...",
       };
       
       return contentMap[activeTab] || "";
   }
 
   const stopAudio = () => {
-    if (audioSourceRef.current) {
-      audioSourceRef.current.stop();
-      audioSourceRef.current = null;
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close().then(() => {
-          audioContextRef.current = null;
-      });
-    }
-    if ('speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-    }
-    setPlaying(false);
+    narrationRef.current?.destroy();
+    narrationRef.current = null;
+    setNarration(null);
   };
 
-  const playDeviceFallback = (text: string) => {
-      if ('speechSynthesis' in window) {
-          stopAudio(); // Ensure clean state
-          
-          // Waterfall Strategy: Select Best Available Voice
-          const langCode = GeminiService.getDeviceVoiceLang(activeTab);
-          const voices = window.speechSynthesis.getVoices();
-          
-          // Priority 1: Exact Language Match
-          let selectedVoice = voices.find(v => v.lang === langCode);
-          
-          // Priority 2: Broad Language Match (e.g. 'hi-IN' -> 'hi')
-          if (!selectedVoice) {
-              const broadLang = langCode.split('-')[0];
-              selectedVoice = voices.find(v => v.lang.startsWith(broadLang));
-          }
-
-          const utterance = new SpeechSynthesisUtterance(text);
-          if (selectedVoice) {
-              utterance.voice = selectedVoice;
-              utterance.lang = selectedVoice.lang;
-          } else {
-              // Fallback to English/System Default but try to set lang code hint
-              utterance.lang = langCode;
-          }
+  const startNarration = (player: Narration, text: string) => {
+    // A device fallback taking over mid-article keeps the reader's speed
+    const rate = narrationRef.current?.getState().rate;
+    narrationRef.current?.destroy();
+    narrationRef.current = player;
+    if (rate) player.setRate(rate);
+    setNarratedText(text);
+    player.subscribe(setNarration);
+    player.play();
+  };
 
-          utterance.rate = 0.9;
-          // Clean text for device TTS as it often reads punctuation
-          utterance.text = text.replace(/[*#_]/g, '');
-
-          utterance.onend = () => setPlaying(false);
-          utterance.onerror = (e) => {
-              console.error("Device TTS Error", e);
-              setPlaying(false);
-              addToast("Audio Error", "Audio unavailable on this device.", "warning");
-          };
-          
-          window.speechSynthesis.speak(utterance);
-          setPlaying(true);
-          addToast("Using Device Audio", "Neural voice unavailable, using system voice.", "info");
-      } else {
-          setPlaying(false);
+  const playDeviceFallback = (text: string, sentenceOffset: number = 0, narrated: string = text) => {
+      if (!('speechSynthesis' in window)) {
+          stopAudio();
           addToast("Audio Error", "Browser does not support audio.", "warning");
+          return;
       }
+      const player = createDeviceNarration(text, getTtsVoice(activeTab), sentenceOffset);
+      player.subscribe(state => {
+          if (state.status !== 'error') return;
+          stopAudio();
+          addToast("Audio Error", "Audio unavailable on this device.", "warning");
+      });
+      startNarration(player, narrated);
+      addToast("Using Device Audio", "Neural voice unavailable, using system voice.", "info");
   };
 
-  const handlePlayAudio = async () => {
-    if (playing) {
-      stopAudio();
-      return;
+  // The text to narrate or download, or null (after telling the reader why) while it isn't ready
+  const getNarrationText = (): string | null => {
+    if (translationStatus[activeTab] === 'failed') {
+        addToast("Translation unavailable", "Retry the translation before listening.", "warning");
+        return null;
     }
 
-    setAudioLoading(true);
     const textToRead = getContent();
 
     // Specific check: if we are on 'original' tab, we almost always have text (RSS content).
     // If we are on translated tabs, we might still be generating.
-    const isGenerating = textToRead.includes("generating...");
+    const isGenerating = textToRead.includes("generating...") || translationStatus[activeTab] === 'loading';
 
     // ALLOW PLAYBACK IMMEDIATELY if we are on the original tab and have content
     if (activeTab === 'original' && !textToRead.includes("generating...")) {
-        // Proceed with audio generation/playback
+        return textToRead;
     } else if (!textToRead || isGenerating) {
         // Only block if we are truly waiting for content on a translated tab
-        setAudioLoading(false);
         addToast("Please wait", "Translation is generating...", "info");
-        return;
+        return null;
     }
+    return textToRead;
+  };
+
+  const handlePlayAudio = () => {
+    const textToRead = getNarrationText();
+    if (!textToRead) return;
 
+    let chunks: GeminiService.SpeechChunk[];
     try {
       // For non-English languages, Gemini TTS might not be perfect. 
       // We try it, but if it fails, we fall back to Device TTS which supports regional languages well.
-      const { audioData } = await GeminiService.generateNewsAudio(textToRead);
-
-      // Initialize Audio Context if needed
-      // Remove sampleRate constraint to prevent NotSupportedError on some devices
-      if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-
-      const binaryString = window.atob(audioData);
-      const len = binaryString.length;
-      const bytes = new Uint8Array(len);
-      for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-
-      const buffer = pcmToAudioBuffer(bytes, audioContextRef.current);
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = buffer;
-      source.connect(audioContextRef.current.destination);
-      source.onended = () => setPlaying(false);
-      source.start(0);
-      
-      audioSourceRef.current = source;
-      setPlaying(true);
-
+      chunks = GeminiService.generateNewsAudio(textToRead, activeLanguage?.code || 'en');
     } catch (err) {
       console.warn("Gemini Audio failed, switching to Device TTS", err);
-      // Seamless Fallback to Device TTS (Waterfall Strategy)
       playDeviceFallback(textToRead);
+      return;
+    }
+
+    startNarration(createPcmNarration(chunks, (remainder, sentenceOffset) => {
+      // Seamless Fallback to Device TTS (Waterfall Strategy) from the first chunk that failed
+      console.warn("Gemini Audio failed, reading the rest on device");
+      playDeviceFallback(remainder, sentenceOffset, textToRead);
+    }), textToRead);
+  };
+
+  const handleDownloadAudio = async (format: AudioDownloadFormat) => {
+    setDownloadMenuOpen(false);
+    const text = getNarrationText();
+    if (!text) return;
+
+    setDownloading(true);
+    try {
+      const { blob, filename } = await createNarrationDownload(text, activeLanguage?.code || 'en', format, {
+          title: article.title,
+          source: article.source,
+          language: activeLanguage?.name || 'English',
+          date: article.publishedAt
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (e) {
+      console.warn("Audio download failed", e);
+      addToast("Download unavailable", "The narration could not be generated for this article.", "warning");
     } finally {
-      setAudioLoading(false);
+      setDownloading(false);
     }
   };
 
   // Cleanup on unmount
   useEffect(() => {
+    getAudioDownloadFormats().then(setDownloadFormats);
     return () => stopAudio();
   }, []);
 
-  const getFontClass = () => {
-      if (activeTab === 'urdu') return 'font-serif leading-loose text-right text-xl'; 
-      if (activeTab === 'hindi') return 'leading-loose text-lg';
-      if (activeTab === 'telugu') return 'leading-loose text-lg';
-      return 'leading-relaxed';
-  }
+  const activeLanguage = getLanguage(activeTab);
+  const getFontClass = () => activeLanguage?.fontClass || 'leading-relaxed';
+
+  // Determine companion-language content for display below main text
+  const companionLanguage = getLanguage(COMPANION_LANGUAGE);
+  const companionTranslation = enhancedContent?.translations[COMPANION_LANGUAGE];
+  const companionContent = companionTranslation?.fullArticle || companionTranslation?.summary || article.descriptionTranslations?.[COMPANION_LANGUAGE];
+  const showCompanionBelow = activeTab !== COMPANION_LANGUAGE && companionLanguage && companionContent;
 
-  // Determine Roman Urdu content for display below main text
-  const romanContent = enhancedContent?.fullArticleRomanUrdu || enhancedContent?.summaryRomanUrdu || article.descriptionRomanUrdu;
-  const showRomanBelow = activeTab !== 'roman' && romanContent;
+  const content = getContent();
+  const highlightedSentence = narration && narration.status !== 'ended' && narratedText === content ? narration.sentenceIndex : -1;
+
+  // Keep the sentence being read in view
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightedSentence]);
 
   return (
     <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center p-0 md:p-4 bg-black/90 backdrop-blur-md">
@@ -709,7 +1124,11 @@ const ArticleModal: React.FC<ArticleModalProps> = ({ article, onClose, addToast
            <h2 className="text-2xl md:text-3xl font-bold text-white mb-2 leading-tight">{article.title}</h2>
            <div className="flex items-center gap-3 text-xs text-gray-500 mb-6">
              <span className="bg-zinc-800 px-2 py-1 rounded text-gold-500 border border-zinc-700">{article.source}</span>
-             <span>{article.timestamp}</span>
+             <span>{formatArticleTime(article)}</span>
+             {article.editedAt && (
+                 <span className="italic" title={`Edited ${new Date(article.editedAt).toLocaleString()}`}>edited</span>
+             )}
+             {byline && <span className="text-gray-400">By {byline}</span>}
              {article.url && article.url !== '#' && (
                  <a href={article.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-gold-600 hover:text-gold-400 font-bold uppercase tracking-wider">
                      <span>Read Original</span>
@@ -718,23 +1137,42 @@ const ArticleModal: React.FC<ArticleModalProps> = ({ article, onClose, addToast
              )}
            </div>
 
+           {article.relatedSources && article.relatedSources.length > 0 && (
+               <div className="mb-6 bg-zinc-950/50 border border-zinc-800 rounded-lg p-3">
+                   <p className="text-gold-600/70 text-[10px] uppercase font-bold mb-2 tracking-wider">
+                       Covered by {countSources(article)} sources
+                   </p>
+                   <ul className="space-y-1">
+                       {article.relatedSources.map(related => (
+                           <li key={related.url} className="text-xs text-gray-400 flex gap-2">
+                               <span className="text-gold-500 font-bold shrink-0">{related.source}</span>
+                               {related.url && related.url !== '#' ? (
+                                   <a href={related.url} target="_blank" rel="noopener noreferrer" className="hover:text-gold-400 line-clamp-1">{related.title}</a>
+                               ) : (
+                                   <span className="line-clamp-1">{related.title}</span>
+                               )}
+                           </li>
+                       ))}
+                   </ul>
+               </div>
+           )}
+
            <div className="relative mb-6">
               <label className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2 block">Select Language / Format</label>
               <div className="relative">
                 <select
                     value={activeTab}
                     onChange={(e) => {
-                        setActiveTab(e.target.value as any);
+                        setActiveTab(e.target.value as ArticleTab);
                         stopAudio(); // Stop audio when changing language
                     }}
                     className="w-full bg-zinc-900 border border-zinc-700 text-white text-sm py-2 px-3 rounded-lg focus:ring-gold-500 focus:border-gold-500 block appearance-none cursor-pointer hover:border-gold-600/50 transition-colors"
                 >
                     <option value="original">English (Full Article)</option>
                     <option value="summary">AI Summary (English)</option>
-                    <option value="roman">Roman Urdu</option>
-                    <option value="urdu">Urdu (اردو)</option>
-                    <option value="hindi">Hindi (हिंदी)</option>
-                    <option value="telugu">Telugu (తెలుగు)</option>
+                    {LANGUAGES.map(language => (
+                        <option key={language.code} value={language.code}>{getLanguageLabel(language)}</option>
+                    ))}
                 </select>
                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-gold-500">
                     <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
@@ -742,11 +1180,37 @@ const ArticleModal: React.FC<ArticleModalProps> = ({ article, onClose, addToast
               </div>
            </div>
 
+           {enhancedContent?.grounding && (
+               <div className="mb-4 flex flex-wrap items-center gap-2 text-[10px] uppercase font-bold tracking-wider">
+                   {article.url && article.url !== '#' ? (
+                       <a href={article.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 bg-gold-600/10 text-gold-500 border border-gold-600/30 px-2 py-1 rounded hover:text-gold-400">
+                           <span>AI-expanded from source</span>
+                           <IconLink />
+                       </a>
+                   ) : (
+                       <span className="bg-gold-600/10 text-gold-500 border border-gold-600/30 px-2 py-1 rounded">AI-expanded from source</span>
+                   )}
+                   {enhancedContent.grounding.removedSentences > 0 && (
+                       <span className="text-gray-500 normal-case font-normal tracking-normal" title={enhancedContent.grounding.unsupportedClaims.join('\n')}>
+                           {enhancedContent.grounding.removedSentences} unverified statement{enhancedContent.grounding.removedSentences === 1 ? '' : 's'} removed
+                       </span>
+                   )}
+               </div>
+           )}
+
            <div className="prose prose-invert prose-amber max-w-none min-h-[200px]">
                {/* OPTIMISTIC UI: Show content immediately. If loading, show a subtle indicator overlay instead of blocking content */}
-               <div className={`text-gray-300 ${getFontClass()} whitespace-pre-line relative`}>
-                 {getContent()}
-                 {loading && (
+               <div dir={activeLanguage?.direction || 'ltr'} className={`text-gray-300 ${getFontClass()} whitespace-pre-line relative`}>
+                 {highlightedSentence >= 0 ? splitSentenceSpans(content).map((sentence, i) => (
+                     <span
+                         key={i}
+                         ref={i === highlightedSentence ? highlightRef : undefined}
+                         className={i === highlightedSentence ? 'bg-gold-500/15 text-white rounded transition-colors' : undefined}
+                     >
+                         {sentence}
+                     </span>
+                 )) : content}
+                 {(loading || translationStatus[activeTab] === 'loading') && (
                      <div className="absolute top-0 right-0 p-2">
                          <span className="flex h-3 w-3 relative">
                             <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-gold-400 opacity-75"></span>
@@ -756,49 +1220,97 @@ const ArticleModal: React.FC<ArticleModalProps> = ({ article, onClose, addToast
                  )}
                </div>
                
-               {/* Always show Roman Urdu below content unless active tab is Roman Urdu */}
-               {showRomanBelow && (
+               {/* Always show the companion language below content unless it is the active tab */}
+               {showCompanionBelow && (
                    <div className="mt-8 pt-8 border-t border-zinc-800">
                         <h4 className="text-gold-600/70 text-xs font-bold uppercase tracking-widest mb-4 flex items-center gap-2">
                             <span className="w-1.5 h-1.5 bg-gold-600 rounded-full inline-block"></span>
-                            Roman Urdu Translation
+                            {companionLanguage.name} Translation
                         </h4>
-                        <p className="text-gray-400/80 leading-relaxed whitespace-pre-line text-sm md:text-base font-sans">
-                            {romanContent}
+                        <p dir={companionLanguage.direction} className="text-gray-400/80 leading-relaxed whitespace-pre-line text-sm md:text-base font-sans">
+                            {companionContent}
                         </p>
                    </div>
                )}
 
                {loading && activeTab !== 'original' && !getContent().includes(enhancedContent?.fullArticle || '') && (
                    <p className="text-xs text-gold-500/70 mt-4 italic animate-pulse">
-                       AI Journalist is expanding and translating full story in background...
+                       AI Journalist is expanding the full story in background...
+                   </p>
+               )}
+
+               {activeLanguage && translationStatus[activeLanguage.code] === 'loading' && (
+                   <p className="text-xs text-gold-500/70 mt-4 italic animate-pulse">
+                       Translating into {activeLanguage.name}...
                    </p>
                )}
+
+               {activeLanguage && translationStatus[activeLanguage.code] === 'failed' && (
+                   <button
+                       onClick={() => translate(activeLanguage.code)}
+                       className="mt-4 text-xs font-bold uppercase tracking-wider text-gold-500 border border-gold-600/40 px-3 py-1.5 rounded-full hover:bg-gold-600/10 transition"
+                   >
+                       Retry {activeLanguage.name} translation
+                   </button>
+               )}
            </div>
         </div>
 
         <div className="p-4 border-t border-zinc-800 bg-noir-900 flex flex-between items-center shrink-0">
-          <div className="hidden md:block text-xs text-gray-500">
-             Powered by Gemini 2.5
+          <div className="hidden md:flex items-center gap-3 text-xs text-gray-500">
+             <span>Powered by Gemini 2.5</span>
+             {editorToken && (
+                 <button
+                     disabled={regenerating || loading}
+                     onClick={handleRegenerate}
+                     className="px-3 py-1 rounded-full border border-zinc-700 text-gray-400 hover:text-gold-400 hover:border-gold-600/50 transition disabled:opacity-50"
+                 >
+                     {regenerating ? 'Purging...' : 'Regenerate AI'}
+                 </button>
+             )}
           </div>
-          <button 
-            disabled={audioLoading}
-            onClick={handlePlayAudio}
-            className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-all w-full md:w-auto justify-center text-sm border ${
-              playing 
-                ? 'bg-zinc-900 text-red-400 border-red-800 hover:border-red-600' 
-                : 'bg-black text-gold-500 border-gold-600 hover:bg-gold-600/10 shadow-lg shadow-gold-500/10'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {audioLoading ? (
-              <span className="animate-spin h-4 w-4 border-2 border-gold-500 border-t-transparent rounded-full"></span>
-            ) : (
-              <>
-                 {playing ? <IconStop /> : <IconMic />} 
-                 {playing ? "Stop" : "Listen"}
-              </>
+          {narration ? (
+            <AudioPlayer
+              state={narration}
+              onToggle={() => narration.status === 'playing' || narration.status === 'loading' ? narrationRef.current?.pause() : narrationRef.current?.play()}
+              onSeek={seconds => narrationRef.current?.seek(seconds)}
+              onRateChange={rate => narrationRef.current?.setRate(rate)}
+              onStop={stopAudio}
+            />
+          ) : (
+            <button 
+              onClick={handlePlayAudio}
+              className="flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-all w-full md:w-auto justify-center text-sm border bg-black text-gold-500 border-gold-600 hover:bg-gold-600/10 shadow-lg shadow-gold-500/10"
+            >
+              <IconMic /> Listen
+            </button>
+          )}
+          <div className="relative shrink-0 ml-2">
+            <button
+              disabled={downloading}
+              onClick={() => downloadFormats.length > 1 ? setDownloadMenuOpen(open => !open) : handleDownloadAudio(downloadFormats[0])}
+              title="Download audio"
+              className="flex items-center gap-2 px-3 py-2 rounded-full text-sm font-bold border border-zinc-700 text-gray-400 hover:text-gold-400 hover:border-gold-600/50 transition disabled:opacity-50"
+            >
+              {downloading ? (
+                <span className="animate-spin h-4 w-4 border-2 border-gold-500 border-t-transparent rounded-full"></span>
+              ) : <IconDownload />}
+              <span className="hidden md:inline">Download audio</span>
+            </button>
+            {downloadMenuOpen && (
+              <div className="absolute bottom-full right-0 mb-2 w-56 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl overflow-hidden z-10">
+                {downloadFormats.map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleDownloadAudio(format)}
+                    className="block w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-gold-600/10 hover:text-gold-400 transition"
+                  >
+                    {DOWNLOAD_FORMAT_LABELS[format]}
+                  </button>
+                ))}
+              </div>
             )}
-          </button>
+          </div>
         </div>
       </div>
     </div>
@@ -817,6 +1329,7 @@ export default function App() {
   });
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [showAddGalleryModal, setShowAddGalleryModal] = useState(false);
+  const [showFeedHealthModal, setShowFeedHealthModal] = useState(false);
   const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
 
   const [newsItems, setNewsItems] = useState<Article[]>([]);
@@ -824,6 +1337,7 @@ export default function App() {
   const [breakingHeadlines, setBreakingHeadlines] = useState<string[]>([]);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [lightboxArticle, setLightboxArticle] = useState<Article | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState(0);
 
   const addToast = (title: string, message: string, type: 'success' | 'info' | 'warning' = 'info') => {
       const id = Date.now();
@@ -963,13 +1477,17 @@ export default function App() {
                 categoriesToFetch.map(cat => RssService.fetchNewsForCategory(cat))
             );
             
+            const windowMs = BREAKING_NEWS_WINDOW_HOURS * 60 * 60 * 1000;
             const headlines: string[] = [];
             results.forEach((articles) => {
-                articles.slice(0, 3).forEach(a => {
-                    if (a.title && !headlines.includes(a.title)) {
-                        headlines.push(a.title);
-                    }
-                });
+                sortByPublishedAt(articles)
+                    .filter(a => isWithinWindow(a.publishedAt, windowMs))
+                    .slice(0, 3)
+                    .forEach(a => {
+                        if (a.title && !headlines.includes(a.title)) {
+                            headlines.push(a.title);
+                        }
+                    });
             });
             
             if (headlines.length > 0) {
@@ -989,6 +1507,11 @@ export default function App() {
   const isFoundersPage = currentCategory === Category.FOUNDERS;
   const isGalleryPage = currentCategory === Category.GALLERY;
 
+  const openLightbox = (article: Article, index: number = 0) => {
+    setLightboxIndex(index);
+    setLightboxArticle(article);
+  };
+
   const getMediaItems = () => {
     return newsItems.filter(item => 
         item.videoUrl || (item.imageUrl && item.imageUrl !== ASSET_LOGO_URL && item.imageUrl !== FALLBACK_ARTICLE_IMAGE)
@@ -1122,7 +1645,9 @@ export default function App() {
                                       onClick={() => setSelectedArticle(article)}
                                       className="bg-noir-900 border border-zinc-800 rounded-xl overflow-hidden hover:border-gold-600 transition-all cursor-pointer group flex flex-col h-full hover:shadow-[0_0_20px_rgba(212,175,55,0.1)]"
                                   >
-                                      {article.mediaType === 'video' ? (
+                                      {visualAttachments(article).length > 1 ? (
+                                          <MediaCarousel items={visualAttachments(article)} title={article.title} onExpand={index => openLightbox(article, index)} />
+                                      ) : article.mediaType === 'video' ? (
                                         article.videoUrl ? (
                                           <div className="aspect-video w-full overflow-hidden relative bg-black border-b border-zinc-800 group/video">
                                               <video 
@@ -1133,7 +1658,7 @@ export default function App() {
                                                   onClick={(e) => e.stopPropagation()} 
                                               />
                                               <button 
-                                                  onClick={(e) => { e.stopPropagation(); setLightboxArticle(article); }}
+                                                  onClick={(e) => { e.stopPropagation(); openLightbox(article); }}
                                                   className="absolute top-2 right-2 bg-black/60 p-2 rounded-full text-white opacity-0 group-hover/video:opacity-100 transition-opacity hover:bg-gold-600 hover:text-black z-10 backdrop-blur-sm"
                                                   title="Full Screen"
                                               >
@@ -1165,7 +1690,7 @@ export default function App() {
                                               />
                                               <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black to-transparent h-12"></div>
                                               <button 
-                                                  onClick={(e) => { e.stopPropagation(); setLightboxArticle(article); }}
+                                                  onClick={(e) => { e.stopPropagation(); openLightbox(article); }}
                                                   className="absolute top-2 right-2 bg-black/60 p-2 rounded-full text-white opacity-0 group-hover/image:opacity-100 transition-opacity hover:bg-gold-600 hover:text-black z-10 backdrop-blur-sm"
                                                   title="View Full Image"
                                               >
@@ -1177,10 +1702,19 @@ export default function App() {
                                       <div className="p-5 flex-1 flex flex-col">
                                           <div className="flex items-center justify-between mb-3 border-b border-zinc-800 pb-2">
                                               <div className="flex items-center gap-2 text-[10px] text-gray-500">
-                                                  <span className="uppercase tracking-widest text-gold-500">{article.timestamp}</span>
+                                                  {article.pinned && (
+                                                      <span className="bg-gold-900/40 text-gold-400 px-2 py-0.5 rounded border border-gold-700/50 uppercase tracking-widest">Pinned</span>
+                                                  )}
+                                                  <span className="uppercase tracking-widest text-gold-500">{formatArticleTime(article)}</span>
                                                   {article.mediaType === 'video' && (
                                                       <span className="bg-red-900/50 text-red-400 px-2 py-0.5 rounded border border-red-800/50">VIDEO</span>
                                                   )}
+                                                  {article.views !== undefined && (
+                                                      <span>{article.views.toLocaleString()} views</span>
+                                                  )}
+                                                  {article.editedAt && (
+                                                      <span className="italic" title={`Edited ${new Date(article.editedAt).toLocaleString()}`}>edited</span>
+                                                  )}
                                               </div>
                                           </div>
                                           
@@ -1190,6 +1724,9 @@ export default function App() {
                                           <p className="text-gray-400 text-sm line-clamp-3 whitespace-pre-line leading-relaxed mb-4 flex-1">
                                              {article.description}
                                           </p>
+                                          {otherAttachments(article).length > 0 && (
+                                              <AttachmentList items={otherAttachments(article)} />
+                                          )}
                                       </div>
                                   </div>
                               ))}
@@ -1219,7 +1756,7 @@ export default function App() {
                                 <div 
                                     key={item.id} 
                                     className="break-inside-avoid bg-noir-900 border border-zinc-800 rounded-xl overflow-hidden cursor-pointer hover:border-gold-600 transition-all group relative"
-                                    onClick={() => setLightboxArticle(item)}
+                                    onClick={() => openLightbox(item)}
                                 >
                                     {item.mediaType === 'video' ? (
                                         <div className="relative">
@@ -1252,9 +1789,14 @@ export default function App() {
                                             className="w-full h-auto object-cover"
                                         />
                                     )}
+                                    {visualAttachments(item).length > 1 && (
+                                        <span className="absolute top-2 right-2 bg-black/70 text-white text-[10px] px-2 py-0.5 rounded backdrop-blur-sm">
+                                            +{visualAttachments(item).length - 1}
+                                        </span>
+                                    )}
                                     <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
                                         <h4 className="text-white text-xs font-bold line-clamp-2">{item.title}</h4>
-                                        <span className="text-gold-500 text-[10px] uppercase mt-1">{item.timestamp}</span>
+                                        <span className="text-gold-500 text-[10px] uppercase mt-1">{formatArticleTime(item)}</span>
                                     </div>
                                 </div>
                             ))
@@ -1355,7 +1897,7 @@ export default function App() {
                     {newsItems.map(item => (
                         <div 
                             key={item.id} 
-                            onClick={() => setLightboxArticle(item)}
+                            onClick={() => openLightbox(item)}
                             className="break-inside-avoid bg-noir-900 border border-zinc-800 rounded-xl overflow-hidden cursor-pointer hover:border-gold-600 transition-all group relative"
                         >
                             <img 
@@ -1365,7 +1907,7 @@ export default function App() {
                             />
                             <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
                                 <h4 className="text-white text-sm font-bold">{item.title}</h4>
-                                <span className="text-gold-500 text-[10px] uppercase">{item.timestamp}</span>
+                                <span className="text-gold-500 text-[10px] uppercase">{formatArticleTime(item)}</span>
                             </div>
                         </div>
                     ))}
@@ -1410,8 +1952,13 @@ export default function App() {
                         <div className="p-5 flex-1 flex flex-col relative">
                             <div className="flex items-center justify-between mb-3 border-b border-zinc-800 pb-3">
                                 <div className="flex items-center gap-2">
-                                     <span className="text-[10px] text-gold-500 uppercase tracking-widest">{article.timestamp}</span>
+                                     <span className="text-[10px] text-gold-500 uppercase tracking-widest">{formatArticleTime(article)}</span>
                                 </div>
+                                {article.relatedSources && article.relatedSources.length > 0 && (
+                                    <span className="text-[10px] text-gray-400 bg-zinc-800 px-2 py-0.5 rounded border border-zinc-700">
+                                        Covered by {countSources(article)} sources
+                                    </span>
+                                )}
                             </div>
 
                             <h3 className="text-white font-serif font-bold text-xl leading-snug mb-3 group-hover:text-gold-400 transition-colors line-clamp-3">
@@ -1429,11 +1976,11 @@ export default function App() {
                                 <div className="mt-auto bg-zinc-950/50 border border-zinc-800/50 rounded-lg p-3 group-hover:border-gold-600/30 transition-colors">
                                     <p className="text-gold-600/70 text-[10px] uppercase font-bold mb-1 tracking-wider flex items-center gap-1">
                                         <span className="w-1.5 h-1.5 bg-gold-600 rounded-full inline-block"></span>
-                                        Roman Urdu
+                                        {getLanguage(COMPANION_LANGUAGE)?.name}
                                     </p>
-                                    {article.descriptionRomanUrdu ? (
+                                    {article.descriptionTranslations?.[COMPANION_LANGUAGE] ? (
                                         <p className="text-gray-500 text-xs italic font-medium leading-relaxed line-clamp-2">
-                                            "{article.descriptionRomanUrdu}"
+                                            "{article.descriptionTranslations[COMPANION_LANGUAGE]}"
                                         </p>
                                     ) : (
                                         <p className="text-gray-600/60 text-[10px] italic font-medium leading-relaxed">
@@ -1512,6 +2059,9 @@ export default function App() {
 
          <div className="max-w-7xl mx-auto px-4 mt-12 pt-8 border-t border-zinc-900 flex flex-col md:flex-row justify-between items-center text-[10px] text-gray-600 uppercase tracking-widest">
             <p>© 2025 News Pulse AI. All rights reserved.</p>
+            <button onClick={() => setShowFeedHealthModal(true)} className="mt-2 md:mt-0 uppercase tracking-widest hover:text-gold-500 transition-colors">
+                Feed Status
+            </button>
             <p className="mt-2 md:mt-0">{ATTRIBUTION}</p>
          </div>
       </footer>
@@ -1535,10 +2085,15 @@ export default function App() {
       {lightboxArticle && (
           <Lightbox 
             article={lightboxArticle}
+            initialIndex={lightboxIndex}
             onClose={() => setLightboxArticle(null)}
           />
       )}
 
+      {showFeedHealthModal && (
+          <FeedHealthModal onClose={() => setShowFeedHealthModal(false)} />
+      )}
+
       {showAddGalleryModal && (
           <AddGalleryModal 
             onClose={() => setShowAddGalleryModal(false)}
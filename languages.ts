@@ -0,0 +1,85 @@
+import { LanguageCode } from './types';
+
+/**
+ * Every reading language the app offers besides English. Translations, the modal's language
+ * picker, fonts and TTS voices are all driven from this list, so supporting a new language
+ * means adding one entry here.
+ */
+
+export interface LanguageDefinition {
+  code: LanguageCode;        // Key in translation maps (BCP 47)
+  name: string;              // Shown in the language picker
+  nativeName?: string;
+  promptName: string;        // How the model is asked for it
+  script: string;            // ISO 15924 script the text must be written in
+  direction: 'ltr' | 'rtl';
+  fontClass: string;         // Tailwind classes for reading text in this script
+  ttsVoice: string;          // BCP 47 tag for speechSynthesis voice matching
+  unavailableText: string;   // Shown when translation fails
+  headings?: { summary: string; fullArticle: string };
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'ur-Latn',
+    name: 'Roman Urdu',
+    promptName: 'Roman Urdu (Urdu written in Latin script)',
+    script: 'Latn',
+    direction: 'ltr',
+    fontClass: 'leading-relaxed',
+    ttsVoice: 'hi-IN', // Roman Urdu often reads better with Hindi voice
+    unavailableText: 'Tarjuma dastiyab nahi hai.',
+    headings: { summary: 'KHULASA (SUMMARY)', fullArticle: 'TAFSEELI KHABAR (FULL STORY)' }
+  },
+  {
+    code: 'ur',
+    name: 'Urdu',
+    nativeName: 'اردو',
+    promptName: 'Urdu (Nastaliq)',
+    script: 'Arab',
+    direction: 'rtl',
+    fontClass: 'font-serif leading-loose text-xl',
+    ttsVoice: 'ur-IN',
+    unavailableText: 'ترجمہ دستیاب نہیں ہے۔'
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिंदी',
+    promptName: 'Hindi (Devanagari)',
+    script: 'Deva',
+    direction: 'ltr',
+    fontClass: 'leading-loose text-lg',
+    ttsVoice: 'hi-IN',
+    unavailableText: 'अनुवाद उपलब्ध नहीं है।'
+  },
+  {
+    code: 'te',
+    name: 'Telugu',
+    nativeName: 'తెలుగు',
+    promptName: 'Telugu',
+    script: 'Telu',
+    direction: 'ltr',
+    fontClass: 'leading-loose text-lg',
+    ttsVoice: 'te-IN',
+    unavailableText: 'అనువాదం అందుబాటులో లేదు.'
+  }
+];
+
+// Shown under every other tab and on news cards
+export const COMPANION_LANGUAGE: LanguageCode = 'ur-Latn';
+
+export const DEFAULT_TTS_VOICE = 'en-IN';
+
+export const getLanguage = (code: string): LanguageDefinition | undefined => {
+  return LANGUAGES.find(language => language.code === code);
+};
+
+export const getLanguageLabel = (language: LanguageDefinition): string => {
+  return language.nativeName ? `${language.name} (${language.nativeName})` : language.name;
+};
+
+// speechSynthesis language for a modal tab; English tabs and unknown codes use the default voice
+export const getTtsVoice = (code: string): string => {
+  return getLanguage(code)?.ttsVoice || DEFAULT_TTS_VOICE;
+};
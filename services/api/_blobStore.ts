@@ -0,0 +1,46 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { pathToFileURL } from 'url';
+import { supabaseAdmin } from './_supabase';
+
+/**
+ * Where the API routes keep binary media (Telegram photos, videos, voice notes...).
+ * `put` stores the bytes under `key`, overwriting, and returns a durable public URL.
+ *
+ * MEDIA_STORE_DIR selects the local filesystem adapter (tests, local dev); otherwise
+ * files go to the public Supabase Storage bucket MEDIA_BUCKET.
+ */
+export interface BlobStore {
+    put: (key: string, data: Uint8Array, contentType: string) => Promise<string>;
+}
+
+const MEDIA_BUCKET = process.env.MEDIA_BUCKET || 'telegram-media';
+const MEDIA_STORE_DIR = process.env.MEDIA_STORE_DIR;
+const MEDIA_PUBLIC_URL = process.env.MEDIA_PUBLIC_URL; // Base URL the local directory is served from
+
+export const createSupabaseBlobStore = (bucket: string): BlobStore => ({
+    put: async (key, data, contentType) => {
+        const storage = supabaseAdmin!.storage.from(bucket);
+        const { error } = await storage.upload(key, data, { contentType, upsert: true });
+        if (error) throw error;
+        return storage.getPublicUrl(key).data.publicUrl;
+    }
+});
+
+export const createLocalBlobStore = (directory: string, publicBaseUrl?: string): BlobStore => {
+    const root = resolve(directory);
+    const baseUrl = (publicBaseUrl || pathToFileURL(root).href).replace(/\/+$/, '');
+    return {
+        put: async (key, data) => {
+            const path = resolve(join(root, key));
+            if (!path.startsWith(root + sep)) throw new Error(`Blob key escapes the store: ${key}`);
+            await mkdir(dirname(path), { recursive: true });
+            await writeFile(path, data);
+            return `${baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+        }
+    };
+};
+
+export const mediaStore: BlobStore | null = MEDIA_STORE_DIR
+    ? createLocalBlobStore(MEDIA_STORE_DIR, MEDIA_PUBLIC_URL)
+    : supabaseAdmin ? createSupabaseBlobStore(MEDIA_BUCKET) : null;
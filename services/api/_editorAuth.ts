@@ -0,0 +1,14 @@
+import { timingSafeEqual } from 'crypto';
+
+const hasBearer = (header: unknown, token: string | undefined): boolean => {
+    if (!token || typeof header !== 'string') return false;
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(header);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Editors authenticate with a shared token (EDITOR_API_TOKEN) sent as `Authorization: Bearer <token>`
+export const isEditor = (header: unknown): boolean => hasBearer(header, process.env.EDITOR_API_TOKEN);
+
+// Vercel cron jobs send `Authorization: Bearer <CRON_SECRET>` when the project defines CRON_SECRET
+export const isCronJob = (header: unknown): boolean => hasBearer(header, process.env.CRON_SECRET);
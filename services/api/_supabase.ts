@@ -0,0 +1,9 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for the API routes (bypasses RLS). Never import this from client code.
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+
+export const supabaseAdmin = (SUPABASE_URL && SUPABASE_SERVICE_KEY)
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+    : null;
@@ -0,0 +1,53 @@
+import { TelegramPostRow } from '../../types';
+import { supabaseAdmin } from './_supabase';
+
+// The flags editors set on archived channel posts; the bot's post handler never writes them
+export type TelegramPostFlags = Partial<Pick<TelegramPostRow, 'hidden' | 'pinned'>>;
+
+/**
+ * Sets editor flags on an archived channel post. Flagging one message of an album flags
+ * the whole album, since readers only ever see it as one post.
+ * Resolves to the number of rows changed (0 when the post is not in the archive).
+ */
+export const updateTelegramPostFlags = async (chatId: number, messageId: number, flags: TelegramPostFlags): Promise<number> => {
+    const { data: post, error: readError } = await supabaseAdmin!
+        .from('telegram_posts')
+        .select('media_group_id')
+        .eq('chat_id', chatId)
+        .eq('message_id', messageId)
+        .maybeSingle();
+    if (readError) throw readError;
+    if (!post) return 0;
+
+    const update = supabaseAdmin!.from('telegram_posts').update(flags, { count: 'exact' }).eq('chat_id', chatId);
+    const { count, error } = post.media_group_id
+        ? await update.eq('media_group_id', post.media_group_id)
+        : await update.eq('message_id', messageId);
+    if (error) throw error;
+    return count || 0;
+};
+
+// Channel usernames are case-insensitive, and _ is a LIKE wildcard
+const channelPattern = (channel: string) => channel.replace(/[\\_%]/g, '\\$&');
+
+// Chat ID of an archived post known by its public link (t.me/<channel>/<message id>), or null
+export const findTelegramPostChat = async (channel: string, messageId: number): Promise<number | null> => {
+    const { data, error } = await supabaseAdmin!
+        .from('telegram_posts')
+        .select('chat_id')
+        .ilike('channel', channelPattern(channel))
+        .eq('message_id', messageId)
+        .limit(1)
+        .maybeSingle();
+    if (error) throw error;
+    return data ? data.chat_id : null;
+};
+
+export const updateTelegramPostViews = async (channel: string, messageId: number, views: number) => {
+    const { error } = await supabaseAdmin!
+        .from('telegram_posts')
+        .update({ views })
+        .ilike('channel', channelPattern(channel))
+        .eq('message_id', messageId);
+    if (error) throw error;
+};
@@ -0,0 +1,35 @@
+import { isEditor } from './_editorAuth';
+import { supabaseAdmin } from './_supabase';
+
+// LIKE treats _ and % as wildcards, and article IDs are full of underscores
+const escapeLike = (value: string) => value.replace(/[\\_%]/g, '\\$&');
+
+/* ----------  DELETE /api/ai-cache?id=<article id>  ---------- */
+// Purges one article's AI output: the English row and every per-language row. It is regenerated on next open.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'DELETE') {
+        res.setHeader('Allow', 'DELETE');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+    if (!isEditor(req.headers['authorization'])) {
+        return res.status(401).json({ error: 'Editor token required' });
+    }
+
+    const id = typeof req.query.id === 'string' ? req.query.id.trim() : '';
+    if (!id) {
+        return res.status(400).json({ error: 'An article id is required' });
+    }
+    if (!supabaseAdmin) {
+        return res.status(503).json({ error: 'Storage is not configured' });
+    }
+
+    const english = await supabaseAdmin.from('ai_articles_cache').delete({ count: 'exact' }).eq('article_id', id);
+    const translations = await supabaseAdmin.from('ai_articles_cache').delete({ count: 'exact' }).like('article_id', `${escapeLike(id)}:%`);
+
+    const error = english.error || translations.error;
+    if (error) {
+        console.error(`[AI cache] Purge failed for ${id}`, error);
+        return res.status(500).json({ error: error.message });
+    }
+    return res.status(200).json({ id, purged: (english.count || 0) + (translations.count || 0) });
+}
@@ -0,0 +1,483 @@
+import { timingSafeEqual } from 'crypto';
+import { Context, Telegraf, Telegram, TelegramError } from 'telegraf';
+import { message } from 'telegraf/filters';
+import type { Message, Update } from 'telegraf/types';
+import {
+    Article, MediaAttachment, MediaKind, TelegramDeadLetter, TelegramMediaType, TelegramPostRevision, TelegramPostRow
+} from '../../types';
+import { TELEGRAM_CHANNEL, TELEGRAM_CHANNEL_URL } from '../../constants';
+import { parseTelegramWidget, telegramPostTitle } from '../feedParser';
+import { mediaStore } from './_blobStore';
+import { supabaseAdmin } from './_supabase';
+import { TelegramPostFlags, findTelegramPostChat, updateTelegramPostFlags, updateTelegramPostViews } from './_telegramPosts';
+
+const BOT_TOKEN = process.env.BOT_TOKEN;
+const WEBHOOK_SECRET = process.env.BOT_WEBHOOK_SECRET; // The secret_token passed to setWebhook
+const EDITOR_IDS = new Set((process.env.EDITOR_TELEGRAM_IDS || '').split(',').map(id => id.trim()).filter(Boolean));
+const STATS_POSTS = 10; // Posts listed by /stats
+const WIDGET_FETCH_TIMEOUT = 10000; // 10s
+const FILE_DOWNLOAD_LIMIT = 20 * 1024 * 1024; // getFile refuses anything larger
+const bot = BOT_TOKEN ? new Telegraf(BOT_TOKEN) : null;
+
+// Failures go back to the webhook handler, which records them; Telegraf's default logs and sets a failing exit code
+bot?.catch(e => { throw e; });
+
+interface FileRef {
+    fileId: string;
+    fileUniqueId: string; // Stable across bots and re-sends, so it names the stored copy
+    fileSize?: number; // Bytes, when Telegram reports it
+}
+
+interface PostMedia {
+    type: TelegramMediaType;
+    file: FileRef;
+    thumbnail?: FileRef;
+    attachment: Omit<MediaAttachment, 'url' | 'thumbnailUrl'>;
+}
+
+const fileRef = (file: { file_id: string; file_unique_id: string; file_size?: number } | undefined): FileRef | undefined => {
+    return file ? { fileId: file.file_id, fileUniqueId: file.file_unique_id, fileSize: file.file_size } : undefined;
+};
+
+const postText = (post: Message): string => {
+    if ('text' in post) return post.text;
+    if ('caption' in post) return post.caption || '';
+    return '';
+};
+
+// Files sent "as document" keep their real kind when it is one we can show inline
+const documentKind = (mimeType: string | undefined): MediaKind => {
+    if (mimeType?.startsWith('image/')) return 'image';
+    if (mimeType?.startsWith('video/')) return 'video';
+    if (mimeType?.startsWith('audio/')) return 'audio';
+    return 'document';
+};
+
+// A message holds at most one media item; albums arrive as several messages sharing a media_group_id
+const postMedia = (post: Message): PostMedia | null => {
+    if ('photo' in post && post.photo.length > 0) {
+        // Sizes are ascending: keep the largest, and a ~320px one as the thumbnail
+        const largest = post.photo[post.photo.length - 1];
+        const preview = post.photo.length > 1 ? post.photo.find(size => size.width >= 320) : undefined;
+        return {
+            type: 'photo',
+            file: fileRef(largest)!,
+            thumbnail: preview !== largest ? fileRef(preview) : undefined,
+            attachment: { kind: 'image', mimeType: 'image/jpeg', width: largest.width, height: largest.height }
+        };
+    }
+    // Animations also carry `document` for old clients, so they are matched by their own field first
+    if ('animation' in post) {
+        const { mime_type, file_name, width, height, duration, thumbnail } = post.animation;
+        return {
+            type: 'animation', file: fileRef(post.animation)!, thumbnail: fileRef(thumbnail),
+            attachment: { kind: 'animation', mimeType: mime_type, fileName: file_name, width, height, duration }
+        };
+    }
+    if ('video' in post) {
+        const { mime_type, file_name, width, height, duration, thumbnail } = post.video;
+        return {
+            type: 'video', file: fileRef(post.video)!, thumbnail: fileRef(thumbnail),
+            attachment: { kind: 'video', mimeType: mime_type, fileName: file_name, width, height, duration }
+        };
+    }
+    if ('audio' in post) {
+        const { mime_type, file_name, title, performer, duration, thumbnail } = post.audio;
+        return {
+            type: 'audio', file: fileRef(post.audio)!, thumbnail: fileRef(thumbnail),
+            attachment: { kind: 'audio', mimeType: mime_type, fileName: file_name, title, performer, duration }
+        };
+    }
+    if ('voice' in post) {
+        const { mime_type, duration } = post.voice;
+        return { type: 'voice', file: fileRef(post.voice)!, attachment: { kind: 'voice', mimeType: mime_type, duration } };
+    }
+    if ('document' in post) {
+        const { mime_type, file_name, thumbnail } = post.document;
+        return {
+            type: 'document', file: fileRef(post.document)!, thumbnail: fileRef(thumbnail),
+            attachment: { kind: documentKind(mime_type), mimeType: mime_type, fileName: file_name }
+        };
+    }
+    return null;
+};
+
+const toIso = (unixSeconds: number | undefined): string | null => {
+    return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : null;
+};
+
+// Maps a channel post (new or edited) to its `telegram_posts` row. `attachment` is its media, already copied to our store.
+export const toTelegramPostRow = (post: Message, attachment: MediaAttachment | null): TelegramPostRow => {
+    const text = postText(post);
+    const media = postMedia(post);
+    return {
+        chat_id: post.chat.id,
+        message_id: post.message_id,
+        channel: 'username' in post.chat ? post.chat.username || null : null,
+        title: telegramPostTitle(text, media?.type || null),
+        message: text,
+        media_url: attachment?.url || null,
+        media_type: media?.type || null,
+        media_file_id: media?.file.fileId || null,
+        media_group_id: 'media_group_id' in post ? post.media_group_id || null : null,
+        attachments: attachment ? [attachment] : [],
+        views: null,
+        posted_at: toIso(post.date),
+        edited_at: 'edit_date' in post ? toIso(post.edit_date) : null
+    };
+};
+
+/**
+ * Copies a Telegram file into the media store and returns its durable public URL. File
+ * links embed the bot token and expire after about an hour, so they are never stored or logged.
+ */
+const persistFile = async (telegram: Telegram, chatId: number, file: FileRef, contentType?: string): Promise<string> => {
+    // Fails the way getFile itself would, without the round trip
+    if (file.fileSize && file.fileSize > FILE_DOWNLOAD_LIMIT) {
+        throw new TelegramError({ error_code: 400, description: 'Bad Request: file is too big' });
+    }
+    const link = await telegram.getFileLink(file.fileId);
+    const response = await fetch(link);
+    if (!response.ok) throw new Error(`Telegram file download failed with status ${response.status}`);
+
+    const extension = link.pathname.match(/\.[a-z0-9]+$/i)?.[0].toLowerCase() || '';
+    const data = new Uint8Array(await response.arrayBuffer());
+    return mediaStore!.put(
+        `telegram/${chatId}/${file.fileUniqueId}${extension}`,
+        data,
+        contentType || response.headers.get('content-type') || 'application/octet-stream'
+    );
+};
+
+// Resolves to null when no media store is configured; a failed copy throws
+const persistMedia = async (telegram: Telegram, post: Message, media: PostMedia): Promise<MediaAttachment | null> => {
+    if (!mediaStore) {
+        console.warn('[Bot] No media store configured; media is not archived');
+        return null;
+    }
+    const url = await persistFile(telegram, post.chat.id, media.file, media.attachment.mimeType);
+    // A missing thumbnail is not worth losing the media over
+    const thumbnailUrl = media.thumbnail
+        ? await persistFile(telegram, post.chat.id, media.thumbnail, 'image/jpeg').catch(e => {
+            console.warn(`[Bot] Thumbnail copy failed for ${post.chat.id}/${post.message_id}`, e);
+            return undefined;
+        })
+        : undefined;
+    return { ...media.attachment, url, thumbnailUrl };
+};
+
+// getFile refusing a file (too big, or gone) will refuse it on every redelivery too; 429 only asks us to slow down
+const isPermanentFileError = (e: unknown): boolean => {
+    return e instanceof TelegramError && e.code >= 400 && e.code < 500 && e.code !== 429;
+};
+
+// The post on t.me; private channels only have the numeric /c/ form, which works for their members
+const telegramPostLink = (post: Message): string => {
+    const channel = 'username' in post.chat ? post.chat.username : undefined;
+    return channel
+        ? `https://t.me/${channel}/${post.message_id}`
+        : `https://t.me/c/${String(post.chat.id).replace(/^-100/, '')}/${post.message_id}`;
+};
+
+// Stands in for media the bot cannot copy: readers get a link to open it in Telegram instead
+const telegramLinkAttachment = (post: Message, media: PostMedia): MediaAttachment => ({
+    kind: 'document',
+    url: telegramPostLink(post),
+    mimeType: media.attachment.mimeType,
+    fileName: media.attachment.fileName || 'Open on Telegram'
+});
+
+type ArchivedPost = Pick<TelegramPostRow, 'title' | 'message' | 'media_url' | 'media_type' | 'attachments' | 'posted_at' | 'edited_at'>;
+
+// The archived row an edit is about to overwrite, or null when the original post never reached us
+const findArchivedPost = async (post: Message): Promise<ArchivedPost | null> => {
+    const { data, error } = await supabaseAdmin!
+        .from('telegram_posts')
+        .select('title, message, media_url, media_type, attachments, posted_at, edited_at')
+        .eq('chat_id', post.chat.id)
+        .eq('message_id', post.message_id)
+        .maybeSingle();
+    if (error) throw new Error(`Could not read ${post.chat.id}/${post.message_id} before its edit: ${error.message}`);
+    return data;
+};
+
+/**
+ * Keeps the archived version of an edited post in `telegram_post_revisions` before the
+ * edit overwrites it. Telegram may deliver the same edit twice; a row that already
+ * carries this edit's date has nothing older to keep. The dates are compared as instants,
+ * since Postgres hands them back as `+00:00` rather than `Z`.
+ */
+const archiveRevision = async (post: Message, previous: ArchivedPost, editedAt: string | null) => {
+    if (editedAt && previous.edited_at && new Date(previous.edited_at).getTime() === new Date(editedAt).getTime()) return;
+
+    const revision: TelegramPostRevision = {
+        chat_id: post.chat.id,
+        message_id: post.message_id,
+        title: previous.title,
+        message: previous.message,
+        media_url: previous.media_url,
+        media_type: previous.media_type,
+        attachments: previous.attachments,
+        published_at: previous.edited_at || previous.posted_at,
+        replaced_at: editedAt
+    };
+    const { error } = await supabaseAdmin!.from('telegram_post_revisions').insert(revision);
+    if (error) console.error('[Bot] telegram_post_revisions insert failed', error);
+};
+
+/* ----------  handle every channel post ---------- */
+bot?.on(['channel_post', 'edited_channel_post'], async (ctx) => {
+    const post = (ctx.channelPost || ctx.editedChannelPost) as Message | undefined;
+    if (!post || !supabaseAdmin) return;
+
+    const previous = ctx.editedChannelPost ? await findArchivedPost(post) : null;
+    const media = postMedia(post);
+    let attachment: MediaAttachment | null = null;
+    let uncopyable = false;
+    if (media) {
+        try {
+            attachment = await persistMedia(ctx.telegram, post, media);
+        } catch (e) {
+            // An edit must not blank media we already hold, and a file Telegram refuses must not hold up the text.
+            // Anything else goes to the dead letters and is retried.
+            if (!previous?.media_url && !isPermanentFileError(e)) throw e;
+            console.warn(`[Bot] Media copy failed for ${post.chat.id}/${post.message_id}; ${previous?.media_url ? 'keeping the archived media' : 'linking to Telegram'}`, e);
+            uncopyable = !previous?.media_url;
+        }
+    }
+
+    const row = toTelegramPostRow(post, attachment);
+    if (media && uncopyable) {
+        row.attachments = [telegramLinkAttachment(post, media)]; // media_file_id stays, to copy it again later
+    } else if (media && !attachment && previous?.media_url) {
+        row.media_url = previous.media_url;
+        row.media_type = previous.media_type;
+        row.attachments = previous.attachments;
+    }
+
+    if (previous) await archiveRevision(post, previous, row.edited_at);
+
+    // The row never carries the editor flags (`hidden`, `pinned`), so an edit does not undo them
+    const { error } = await supabaseAdmin
+        .from('telegram_posts')
+        .upsert(row, { onConflict: 'chat_id,message_id' });
+
+    if (error) throw new Error(`telegram_posts upsert failed: ${error.message}`);
+});
+
+/* ----------  editor commands, in a private chat with the bot  ---------- */
+// Only allowlisted editors (EDITOR_TELEGRAM_IDS) get past this; anyone else is told the user ID to ask for access with
+bot?.on('message', async (ctx, next) => {
+    if (ctx.chat.type !== 'private') return;
+    if (EDITOR_IDS.has(String(ctx.from.id))) return next();
+    await ctx.reply(`Editor commands are limited to the Azad Studio team. Your Telegram user ID is ${ctx.from.id}.`);
+});
+
+bot?.command(['start', 'help'], (ctx) => ctx.reply([
+    '/gallery: caption a photo with it (title on the first line, description below), or reply it to a photo',
+    '/pin, /unpin: feature a post at the top of Azad Studio',
+    '/hide, /unhide: take a post off the site',
+    'Reply these to a forwarded channel post, or add its t.me link or message ID.',
+    '/stats: view counts of the latest posts'
+].join('\n')));
+
+// A failed command is answered in the chat instead of failing the update, which Telegram would redeliver
+const editorCommand = <C extends Context>(run: (ctx: C) => Promise<unknown>) => async (ctx: C) => {
+    try {
+        await run(ctx);
+    } catch (e: any) {
+        console.error(`[Bot] Editor command failed for ${ctx.from?.id}`, e);
+        await ctx.reply(`That did not work: ${e?.message || 'unknown error'}`);
+    }
+};
+
+const publishToGallery = async (ctx: Context, photoMessage: Message | undefined, text: string) => {
+    if (!photoMessage || !('photo' in photoMessage) || photoMessage.photo.length === 0) {
+        return ctx.reply('Send a photo with /gallery as its caption, or reply /gallery to a photo.');
+    }
+    if (!mediaStore || !supabaseAdmin) return ctx.reply('Storage is not configured.');
+
+    // Caption layout: title on the first line, description below
+    const [firstLine = '', ...rest] = text.trim().split('\n');
+    const title = telegramPostTitle(firstLine, 'photo');
+    const description = rest.join('\n').trim();
+    const largest = photoMessage.photo[photoMessage.photo.length - 1];
+    const mediaUrl = await persistFile(ctx.telegram, photoMessage.chat.id, fileRef(largest)!, 'image/jpeg');
+
+    const { error } = await supabaseAdmin.from('gallery_posts').insert([{ title, description, media_url: mediaUrl }]);
+    if (error) throw new Error(error.message);
+    return ctx.reply(`Added to the gallery: ${title}`);
+};
+
+const GALLERY_CAPTION = /^\/gallery(@\w+)?(\s+|$)/i;
+
+bot?.on(message('photo'), editorCommand(async (ctx) => {
+    const caption = ctx.message.caption || '';
+    if (GALLERY_CAPTION.test(caption)) await publishToGallery(ctx, ctx.message, caption.replace(GALLERY_CAPTION, ''));
+}));
+
+bot?.command('gallery', editorCommand(async (ctx) => {
+    const photo = ctx.message.reply_to_message as Message | undefined;
+    const caption = photo && 'caption' in photo ? photo.caption || '' : '';
+    await publishToGallery(ctx, photo, ctx.payload || caption);
+}));
+
+interface PostRef {
+    chatId: number;
+    messageId: number;
+}
+
+const POST_LINK = /^(?:https?:\/\/)?t\.me\/(?:s\/)?(\w+)\/(\d+)/i;
+
+/**
+ * The channel post a command points at: a forwarded post the command replies to, or a
+ * t.me link / message ID of the Azad Studio channel in its arguments. Resolves to
+ * undefined when the command names no post and to null when that post is not archived.
+ */
+const targetPost = async (command: Message.TextMessage, payload: string): Promise<PostRef | null | undefined> => {
+    const replied = command.reply_to_message;
+    const origin = replied && 'forward_origin' in replied ? replied.forward_origin : undefined;
+    if (origin?.type === 'channel') return { chatId: origin.chat.id, messageId: origin.message_id };
+
+    const argument = payload.trim();
+    const link = argument.match(POST_LINK);
+    if (!link && !/^\d+$/.test(argument)) return undefined;
+
+    const messageId = Number(link ? link[2] : argument);
+    const chatId = await findTelegramPostChat(link ? link[1] : TELEGRAM_CHANNEL, messageId);
+    return chatId === null ? null : { chatId, messageId };
+};
+
+const FLAG_COMMANDS: Record<string, { flags: TelegramPostFlags; done: string }> = {
+    pin: { flags: { pinned: true }, done: 'Pinned to the top of Azad Studio' },
+    unpin: { flags: { pinned: false }, done: 'Unpinned' },
+    hide: { flags: { hidden: true }, done: 'Hidden from the site' },
+    unhide: { flags: { hidden: false }, done: 'Back on the site' }
+};
+
+Object.entries(FLAG_COMMANDS).forEach(([command, { flags, done }]) => {
+    bot?.command(command, editorCommand(async (ctx) => {
+        if (!supabaseAdmin) return ctx.reply('Storage is not configured.');
+        const post = await targetPost(ctx.message, ctx.payload);
+        if (post === undefined) return ctx.reply(`Reply /${command} to a forwarded channel post, or send /${command} <t.me link or message ID>.`);
+        if (post === null) return ctx.reply('That post is not in the archive.');
+
+        const updated = await updateTelegramPostFlags(post.chatId, post.messageId, flags);
+        return ctx.reply(updated > 0 ? `${done}: post ${post.messageId}` : 'That post is not in the archive.');
+    }));
+});
+
+// Bot API updates carry no view counts, so they come from the public channel preview
+const fetchChannelViews = async (): Promise<Article[]> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WIDGET_FETCH_TIMEOUT);
+    try {
+        const response = await fetch(TELEGRAM_CHANNEL_URL, { signal: controller.signal });
+        if (!response.ok) throw new Error(`The channel preview returned status ${response.status}`);
+        return parseTelegramWidget(await response.text()).filter(post => post.views !== undefined);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+// Copies the counts into the archive so the site shows them too
+const saveViewCounts = async (posts: Article[]) => {
+    await Promise.all(posts.map(async post => {
+        const link = post.url.match(POST_LINK);
+        if (!link) return;
+        await updateTelegramPostViews(link[1], Number(link[2]), post.views!)
+            .catch(e => console.warn(`[Bot] View count update failed for ${post.url}`, e));
+    }));
+};
+
+bot?.command('stats', editorCommand(async (ctx) => {
+    const posts = await fetchChannelViews();
+    if (posts.length === 0) return ctx.reply('No view counts are available right now.');
+    if (supabaseAdmin) await saveViewCounts(posts);
+
+    const total = posts.reduce((sum, post) => sum + post.views!, 0);
+    const lines = posts.slice(0, STATS_POSTS).map(post => `${post.views!.toLocaleString('en-US')} · ${post.title}`);
+    return ctx.reply(`${total.toLocaleString('en-US')} views across the last ${posts.length} posts\n\n${lines.join('\n')}`);
+}));
+
+// Telegram sends the secret_token given to setWebhook in this header with every update
+const hasWebhookSecret = (header: unknown): boolean => {
+    if (!WEBHOOK_SECRET || typeof header !== 'string') return false;
+    const expected = Buffer.from(WEBHOOK_SECRET);
+    const given = Buffer.from(header);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+/**
+ * Update IDs are recorded in `telegram_updates` once handled, so redeliveries are skipped.
+ * Handling is idempotent anyway (upserts, revisions keyed on the edit date), which keeps
+ * two deliveries racing past this check harmless.
+ */
+const isProcessed = async (updateId: number): Promise<boolean> => {
+    if (!supabaseAdmin) return false;
+    const { data, error } = await supabaseAdmin
+        .from('telegram_updates')
+        .select('update_id')
+        .eq('update_id', updateId)
+        .maybeSingle();
+    if (error) console.warn(`[Bot] Could not check update ${updateId}; handling it again`, error);
+    return !!data;
+};
+
+const markProcessed = async (updateId: number) => {
+    const processed = await supabaseAdmin!.from('telegram_updates')
+        .upsert({ update_id: updateId, processed_at: new Date().toISOString() }, { onConflict: 'update_id', ignoreDuplicates: true });
+    if (processed.error) console.warn(`[Bot] Could not record update ${updateId} as processed`, processed.error);
+
+    // A redelivery that went through settles the earlier failure
+    const settled = await supabaseAdmin!.from('telegram_dead_letters').delete().eq('update_id', updateId);
+    if (settled.error) console.warn(`[Bot] Could not clear dead letter ${updateId}`, settled.error);
+};
+
+const recordDeadLetter = async (update: Update, error: unknown) => {
+    const letter: TelegramDeadLetter = {
+        update_id: update.update_id,
+        payload: update,
+        error: error instanceof Error ? error.message : String(error),
+        failed_at: new Date().toISOString()
+    };
+    const { error: writeError } = await supabaseAdmin!
+        .from('telegram_dead_letters')
+        .upsert(letter, { onConflict: 'update_id' });
+    // Last resort: the payload stays in the function logs
+    if (writeError) console.error(`[Bot] Dead letter write failed for update ${update.update_id}`, writeError, JSON.stringify(update));
+};
+/* ----------  POST /api/bot  (Telegram webhook)  ---------- */
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+    if (!bot || !WEBHOOK_SECRET) {
+        return res.status(503).json({ error: 'Bot is not configured' });
+    }
+    if (!hasWebhookSecret(req.headers['x-telegram-bot-api-secret-token'])) {
+        return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    const update = req.body as Update | undefined;
+    if (!update || !Number.isInteger(update.update_id)) {
+        return res.status(400).json({ error: 'Not a Telegram update' });
+    }
+    if (await isProcessed(update.update_id)) {
+        return res.status(200).json({ ok: true, duplicate: true });
+    }
+
+    try {
+        // No webhook response is passed: replies go through the Bot API, so the status below is always ours to set
+        await bot.handleUpdate(update);
+    } catch (e) {
+        console.error(`[Bot] Update ${update.update_id} failed`, e);
+        if (supabaseAdmin) await recordDeadLetter(update, e);
+        // A non-2xx status makes Telegram deliver the update again later
+        return res.status(500).json({ error: 'Update could not be processed' });
+    }
+
+    if (supabaseAdmin) await markProcessed(update.update_id);
+    return res.status(200).json({ ok: true });
+}
@@ -0,0 +1,134 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { PRODUCTION_URL } from '../../constants';
+import { extractArticle } from '../articleExtractor';
+import { canonicalizeUrl } from '../articleIds';
+import { supabaseAdmin } from './_supabase';
+
+const PAGE_FETCH_TIMEOUT = 10000; // 10s
+const MAX_PAGE_BYTES = 3 * 1024 * 1024; // Publisher pages beyond 3MB are not articles worth parsing
+const MAX_REDIRECTS = 5;
+const USER_AGENT = `NewsPulseAI/1.0 (+${PRODUCTION_URL})`;
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved ranges are off limits
+const isPublicIPv4 = (address: string): boolean => {
+    const [a, b] = address.split('.').map(Number);
+    return !(a === 0 || a === 10 || a === 127 || a >= 224 ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && (b === 168 || b === 0)) ||
+        (a === 198 && (b === 18 || b === 19)));
+};
+
+const isPublicAddress = (address: string): boolean => {
+    if (isIP(address) === 4) return isPublicIPv4(address);
+    const lower = address.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicIPv4(mapped[1]);
+    // ::, ::1, unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    return !(lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith('ff'));
+};
+
+// Only public http(s) pages: this route fetches arbitrary URLs on behalf of the client
+const isFetchableUrl = (raw: string): boolean => {
+    let url: URL;
+    try { url = new URL(raw); } catch (e) { return false; }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+    const host = url.hostname.toLowerCase();
+    if (host === 'localhost' || host.endsWith('.local') || host.endsWith('.internal')) return false;
+    return true;
+};
+
+// The name is resolved here, not trusted: a public-looking host can point at an internal address
+const resolvesToPublicAddress = async (hostname: string): Promise<boolean> => {
+    const host = hostname.replace(/^\[|\]$/g, ''); // IPv6 literals come bracketed
+    try {
+        const addresses = await lookup(host, { all: true, verbatim: true });
+        return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Fetches a page, following redirects by hand so every hop is checked against the
+ * public-address rules before it is contacted. Resolves to the final response and URL.
+ */
+const fetchPublicPage = async (url: string, signal: AbortSignal): Promise<{ response: Response; finalUrl: string }> => {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        if (!isFetchableUrl(current) || !(await resolvesToPublicAddress(new URL(current).hostname))) {
+            throw new Error('Blocked: not a public web address');
+        }
+        const response = await fetch(current, {
+            signal,
+            redirect: 'manual',
+            headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml' }
+        });
+        const location = response.headers.get('Location');
+        if (response.status < 300 || response.status >= 400 || !location) return { response, finalUrl: current };
+        current = new URL(location, current).href;
+    }
+    throw new Error('Too many redirects');
+};
+
+/* ----------  GET /api/extract?url=<article url>  ---------- */
+// Extracts are cached per canonical URL, never per caller-supplied ID, so a request can only
+// ever store what that URL itself serves.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const url = typeof req.query?.url === 'string' ? req.query.url : '';
+
+    if (!isFetchableUrl(url)) {
+        return res.status(400).json({ error: 'A public http(s) url is required' });
+    }
+    const cacheKey = canonicalizeUrl(url);
+
+    if (supabaseAdmin) {
+        const { data } = await supabaseAdmin
+            .from('article_extracts')
+            .select('data')
+            .eq('url', cacheKey)
+            .single();
+
+        if (data?.data) {
+            res.setHeader('Cache-Control', 's-maxage=86400');
+            return res.status(200).json(data.data);
+        }
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT);
+
+    try {
+        const { response, finalUrl } = await fetchPublicPage(url, controller.signal);
+
+        if (!response.ok) throw new Error(`Page status ${response.status}`);
+        if (!(response.headers.get('Content-Type') || '').includes('html')) throw new Error('Not an HTML page');
+
+        const html = await response.text();
+        if (html.length > MAX_PAGE_BYTES) throw new Error('Page too large');
+
+        const extracted = extractArticle(html, finalUrl);
+
+        if (supabaseAdmin && extracted.text) {
+            const { error } = await supabaseAdmin.from('article_extracts')
+                .upsert({ url: cacheKey, data: extracted }, { onConflict: 'url' });
+            if (error) console.error('[Extract] article_extracts insert failed', error);
+        }
+
+        res.setHeader('Cache-Control', 's-maxage=86400');
+        return res.status(200).json(extracted);
+    } catch (e: any) {
+        console.warn(`[Extract] ${url} failed`, e);
+        return res.status(502).json({ error: e?.name === 'AbortError' ? 'Timed out' : (e?.message || 'Extraction failed') });
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
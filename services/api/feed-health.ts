@@ -0,0 +1,34 @@
+import { Category, FeedHealth } from '../../types';
+import { RSS_FEEDS } from '../../constants';
+import { createFeedHealth, fromFeedHealthRow } from '../feedHealth';
+import { isEditor } from './_editorAuth';
+import { supabaseAdmin } from './_supabase';
+
+/* ----------  GET /api/feed-health  ---------- */
+// Health of every configured RSS feed, for the editors' Feed Status view
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+    if (!isEditor(req.headers['authorization'])) {
+        return res.status(401).json({ error: 'Editor token required' });
+    }
+
+    const records = new Map<string, FeedHealth>();
+    if (supabaseAdmin) {
+        const { data, error } = await supabaseAdmin.from('feed_health').select('*');
+        if (error) {
+            console.error('[Feed health] feed_health read failed', error);
+            return res.status(500).json({ error: error.message });
+        }
+        (data || []).forEach((row: any) => records.set(row.feed_url, fromFeedHealthRow(row)));
+    }
+
+    // Feeds the server hasn't polled yet still get a row so editors see the full list
+    const feeds = (Object.keys(RSS_FEEDS) as Category[]).flatMap(category =>
+        RSS_FEEDS[category].map(url => records.get(url) || createFeedHealth(url, category))
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ feeds });
+}
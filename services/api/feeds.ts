@@ -0,0 +1,128 @@
+import { Category, FeedHealth } from '../../types';
+import { RSS_FEEDS } from '../../constants';
+import { sha256Hex } from '../../utils/hash';
+import { aggregateCategory, FeedCacheState } from '../feedAggregator';
+import { fromFeedHealthRow, toFeedHealthRow } from '../feedHealth';
+import { isCronJob, isEditor } from './_editorAuth';
+import { supabaseAdmin } from './_supabase';
+
+const CACHE_DURATION = 5 * 60 * 1000; // Keep in step with the client cache window
+
+const isRssCategory = (value: string): value is Category => {
+    return (Object.values(Category) as string[]).includes(value) && (RSS_FEEDS[value as Category] || []).length > 0;
+};
+
+const loadCachedRow = async (category: Category) => {
+    if (!supabaseAdmin) return null;
+    const { data } = await supabaseAdmin
+        .from('rss_feed_cache')
+        .select('*')
+        .eq('category', category)
+        .single();
+    return data;
+};
+
+const loadFeedHealth = async (category: Category): Promise<Record<string, FeedHealth>> => {
+    if (!supabaseAdmin) return {};
+    const { data } = await supabaseAdmin
+        .from('feed_health')
+        .select('*')
+        .eq('category', category);
+
+    const health: Record<string, FeedHealth> = {};
+    (data || []).forEach((row: any) => {
+        health[row.feed_url] = fromFeedHealthRow(row);
+    });
+    return health;
+};
+
+const refreshCategory = async (category: Category, previousFeeds: FeedCacheState = {}) => {
+    const { articles, feeds, health } = await aggregateCategory(category, {
+        feeds: previousFeeds,
+        health: await loadFeedHealth(category)
+    });
+    const updatedAt = new Date().toISOString();
+
+    if (supabaseAdmin) {
+        const { error: healthError } = await supabaseAdmin.from('feed_health')
+            .upsert(Object.values(health).map(toFeedHealthRow), { onConflict: 'feed_url' });
+        if (healthError) console.error(`[Feeds] feed_health update failed for ${category}`, healthError);
+    }
+
+    if (articles.length > 0 && supabaseAdmin) {
+        // `feeds` keeps the per-feed ETag / Last-Modified validators next to the merged articles
+        const { error } = await supabaseAdmin.from('rss_feed_cache')
+            .upsert({ category, articles, feeds, updated_at: updatedAt }, { onConflict: 'category' });
+        if (error) console.error(`[Feeds] rss_feed_cache update failed for ${category}`, error);
+    }
+
+    return { category, articles, updatedAt };
+};
+
+// Validator for the client: a digest of the whole article payload, so any change a reader would see
+// changes it, while a refresh where every upstream feed answered 304 still lets the client skip the download
+const toEtag = (category: Category, articles: unknown[]) => {
+    return `W/"${sha256Hex(category + '\n' + JSON.stringify(articles))}"`;
+};
+
+/* ----------  GET /api/feeds?category=<Category>  ---------- */
+/* Without a category every RSS category is refreshed: cron jobs (CRON_SECRET) and editors only. */
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const category = typeof req.query?.category === 'string' ? req.query.category : '';
+
+    if (!category) {
+        const auth = req.headers?.['authorization'];
+        if (!isCronJob(auth) && !isEditor(auth)) {
+            return res.status(401).json({ error: 'Cron secret or editor token required' });
+        }
+        const categories = (Object.keys(RSS_FEEDS) as Category[]).filter(isRssCategory);
+        // One broken category must not stop the others from refreshing
+        const results = await Promise.allSettled(categories.map(async (cat) => {
+            const row = await loadCachedRow(cat);
+            return refreshCategory(cat, row?.feeds || {});
+        }));
+
+        const refreshed: { category: Category; count: number }[] = [];
+        const failed: { category: Category; error: string }[] = [];
+        results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+                refreshed.push({ category: result.value.category, count: result.value.articles.length });
+            } else {
+                console.error(`[Feeds] Aggregation failed for ${categories[i]}`, result.reason);
+                failed.push({ category: categories[i], error: result.reason?.message || String(result.reason) });
+            }
+        });
+        // A failing status lets the cron runner flag the partial refresh
+        return res.status(failed.length > 0 ? 502 : 200).json({ refreshed, failed });
+    }
+
+    if (!isRssCategory(category)) {
+        return res.status(400).json({ error: `Unknown feed category: ${category}` });
+    }
+
+    try {
+        const row = await loadCachedRow(category);
+        const isFresh = row && row.articles?.length > 0 && Date.now() - new Date(row.updated_at).getTime() < CACHE_DURATION;
+
+        const result = isFresh
+            ? { category, articles: row.articles, updatedAt: row.updated_at as string }
+            : await refreshCategory(category, row?.feeds || {});
+
+        const etag = toEtag(category, result.articles);
+        res.setHeader('ETag', etag);
+        res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+
+        if (req.headers?.['if-none-match'] === etag) {
+            return res.status(304).end();
+        }
+        return res.status(200).json(result);
+    } catch (e: any) {
+        console.error(`[Feeds] Aggregation failed for ${category}`, e);
+        return res.status(502).json({ error: e?.message || 'Feed aggregation failed' });
+    }
+}
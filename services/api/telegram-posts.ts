@@ -0,0 +1,46 @@
+import { isEditor } from './_editorAuth';
+import { supabaseAdmin } from './_supabase';
+import { TelegramPostFlags, updateTelegramPostFlags } from './_telegramPosts';
+
+const parseId = (value: unknown): number | null => {
+    return typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : null;
+};
+
+const parseFlags = (body: any): TelegramPostFlags | null => {
+    const flags: TelegramPostFlags = {};
+    if (typeof body?.hidden === 'boolean') flags.hidden = body.hidden;
+    if (typeof body?.pinned === 'boolean') flags.pinned = body.pinned;
+    return Object.keys(flags).length > 0 ? flags : null;
+};
+
+/* ----------  PATCH /api/telegram-posts?chat_id=<chat id>&message_id=<message id>  ---------- */
+// Body `{ "hidden": true }` takes a channel post (or its whole album) off the Azad Studio feed and
+// `{ "pinned": true }` features it at the top; `false` undoes either.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'PATCH') {
+        res.setHeader('Allow', 'PATCH');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+    if (!isEditor(req.headers['authorization'])) {
+        return res.status(401).json({ error: 'Editor token required' });
+    }
+
+    const chatId = parseId(req.query.chat_id);
+    const messageId = parseId(req.query.message_id);
+    const flags = parseFlags(req.body);
+    if (chatId === null || messageId === null || !flags) {
+        return res.status(400).json({ error: 'chat_id, message_id and a boolean `hidden` or `pinned` are required' });
+    }
+    if (!supabaseAdmin) {
+        return res.status(503).json({ error: 'Storage is not configured' });
+    }
+
+    try {
+        const updated = await updateTelegramPostFlags(chatId, messageId, flags);
+        if (updated === 0) return res.status(404).json({ error: 'Post not found in the archive' });
+        return res.status(200).json({ chatId, messageId, ...flags, updated });
+    } catch (e: any) {
+        console.error(`[Telegram posts] Flag update failed for ${chatId}/${messageId}`, e);
+        return res.status(500).json({ error: e.message || 'Update failed' });
+    }
+}
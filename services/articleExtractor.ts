@@ -0,0 +1,141 @@
+import { ExtractedArticle } from '../types';
+import {
+    MarkupNode, parseMarkup, findAll, findFirst, elements, textContent, nodeToText, isNode
+} from '../utils/markup';
+
+/**
+ * Readability-style main-content extraction over the pure markup tree, so it runs
+ * inside the Vercel `api/` functions. Prefers the publisher's own JSON-LD `articleBody`
+ * and falls back to scoring paragraph containers.
+ */
+
+const MIN_PARAGRAPH_LENGTH = 40;
+const MIN_ARTICLE_LENGTH = 250;
+
+const UNLIKELY_TAGS = new Set(['script', 'style', 'noscript', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'iframe', 'svg']);
+const NEGATIVE_HINT = /comment|sidebar|footer|related|share|social|promo|advert|\bads?\b|\bad-|newsletter|subscribe|recommend|trending|also-read|popup|cookie|breadcrumb|\btags?\b/i;
+const POSITIVE_HINT = /article|story|content|entry|post|body|main|text|detail/i;
+
+const meta = (doc: MarkupNode, ...keys: string[]): string => {
+    for (const key of keys) {
+        const tag = findFirst(doc, n =>
+            n.name === 'meta' && (n.attrs['property'] === key || n.attrs['name'] === key) && !!n.attrs['content']
+        );
+        if (tag) return tag.attrs['content'].trim();
+    }
+    return '';
+};
+
+const resolveUrl = (src: string, base: string): string => {
+    if (!src) return '';
+    try { return new URL(src, base).toString(); } catch (e) { return ''; }
+};
+
+// Flattens JSON-LD graphs and arrays into a list of typed objects
+const jsonLdObjects = (doc: MarkupNode): any[] => {
+    const objects: any[] = [];
+    const collect = (value: any) => {
+        if (!value || typeof value !== 'object') return;
+        if (Array.isArray(value)) return value.forEach(collect);
+        objects.push(value);
+        if (value['@graph']) collect(value['@graph']);
+    };
+    findAll(doc, n => n.name === 'script' && (n.attrs['type'] || '').includes('ld+json')).forEach(script => {
+        try { collect(JSON.parse(textContent(script))); } catch (e) {}
+    });
+    return objects;
+};
+
+const authorName = (author: any): string => {
+    if (!author) return '';
+    if (typeof author === 'string') return author;
+    if (Array.isArray(author)) return author.map(authorName).filter(Boolean).join(', ');
+    return author.name || '';
+};
+
+const hintOf = (node: MarkupNode) => `${node.attrs['class'] || ''} ${node.attrs['id'] || ''}`;
+
+// Drops boilerplate subtrees in place so they neither score nor leak into the text
+const prune = (node: MarkupNode) => {
+    node.children = node.children.filter(child => {
+        if (!isNode(child)) return true;
+        if (UNLIKELY_TAGS.has(child.name)) return false;
+        const hint = hintOf(child);
+        if (NEGATIVE_HINT.test(hint) && !POSITIVE_HINT.test(hint)) return false;
+        prune(child);
+        return true;
+    });
+};
+
+const paragraphText = (p: MarkupNode) => nodeToText(p).replace(/\s+/g, ' ').trim();
+
+const scoreContainers = (body: MarkupNode): MarkupNode | null => {
+    const scores = new Map<MarkupNode, number>();
+
+    const walk = (node: MarkupNode) => {
+        const paragraphs = elements(node).filter(c => c.name === 'p');
+        let score = 0;
+        paragraphs.forEach(p => {
+            const text = paragraphText(p);
+            if (text.length < MIN_PARAGRAPH_LENGTH) return;
+            score += 1 + Math.min(Math.floor(text.length / 100), 3) + (text.match(/,/g) || []).length;
+        });
+        if (score > 0) {
+            if (POSITIVE_HINT.test(hintOf(node))) score *= 1.25;
+            scores.set(node, score);
+        }
+        elements(node).forEach(walk);
+    };
+    walk(body);
+
+    let best: MarkupNode | null = null;
+    let bestScore = 0;
+    scores.forEach((score, node) => {
+        if (score > bestScore) {
+            best = node;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+export const extractArticle = (html: string, pageUrl: string): ExtractedArticle => {
+    const doc = parseMarkup(html, { html: true });
+    const ld = jsonLdObjects(doc).find(o => typeof o.articleBody === 'string' && o.articleBody.length > 0);
+
+    const titleTag = findFirst(doc, n => n.name === 'title');
+    const title = meta(doc, 'og:title', 'twitter:title') || (titleTag ? textContent(titleTag).trim() : '');
+    const byline = authorName(ld?.author) || meta(doc, 'author', 'article:author', 'parsely-author', 'dc.creator');
+    const ldImage = ld?.image ? (typeof ld.image === 'string' ? ld.image : Array.isArray(ld.image) ? (ld.image[0]?.url || ld.image[0]) : ld.image.url) : '';
+    let leadImage = resolveUrl(meta(doc, 'og:image', 'twitter:image', 'twitter:image:src') || ldImage || '', pageUrl);
+
+    let text = ld ? nodeToText(parseMarkup(ld.articleBody, { html: true })) : '';
+
+    if (text.length < MIN_ARTICLE_LENGTH) {
+        const body = findFirst(doc, n => n.name === 'body') || doc;
+        prune(body);
+        const container = scoreContainers(body);
+        if (container) {
+            const paragraphs = elements(container)
+                .filter(c => c.name === 'p')
+                .map(paragraphText)
+                .filter(t => t.length >= MIN_PARAGRAPH_LENGTH);
+            const scored = paragraphs.join('\n\n');
+            if (scored.length > text.length) text = scored;
+
+            if (!leadImage) {
+                const img = findFirst(container, n => n.name === 'img' && !!(n.attrs['src'] || n.attrs['data-src']));
+                leadImage = resolveUrl(img?.attrs['src'] || img?.attrs['data-src'] || '', pageUrl);
+            }
+        }
+    }
+
+    return {
+        url: pageUrl,
+        title,
+        byline,
+        leadImage,
+        text,
+        extractedAt: new Date().toISOString()
+    };
+};
@@ -0,0 +1,69 @@
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Stable article IDs. The same story must get the same ID across sources, refreshes and
+ * devices, because `ai_articles_cache` and the audio caches are keyed on it.
+ */
+
+const ID_HASH_LENGTH = 24; // 96 bits of SHA-256
+
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', 'ref', 'ref_src', 'ref_url',
+    'cmp', 'ito', 'ocid', 'ncid', '_ga'
+]);
+
+const isTrackingParam = (name: string) => {
+    const lower = name.toLowerCase();
+    return lower.startsWith('utm_') || lower.startsWith('at_') || TRACKING_PARAMS.has(lower);
+};
+
+/**
+ * Normalizes a link so tracking variants of the same page compare equal:
+ * https scheme, lower-case host without `www.`, no fragment, no tracking params,
+ * remaining params sorted, no trailing slash. Non-URLs are returned trimmed.
+ */
+export const canonicalizeUrl = (raw: string): string => {
+    const trimmed = (raw || '').trim();
+    let url: URL;
+    try {
+        url = new URL(trimmed);
+    } catch (e) {
+        return trimmed;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return trimmed;
+
+    const params = Array.from(url.searchParams.entries())
+        .filter(([name]) => !isTrackingParam(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+    const query = params.length > 0
+        ? '?' + params.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&')
+        : '';
+
+    return `https://${host}${url.port ? ':' + url.port : ''}${path}${query}`;
+};
+
+/**
+ * ID for a feed item: SHA-256 of the canonical link plus the GUID when the feed provides
+ * one that isn't just the link again.
+ */
+export const feedArticleId = (link: string, guid?: string): string => {
+    const canonicalLink = canonicalizeUrl(link);
+    const canonicalGuid = guid ? canonicalizeUrl(guid) : '';
+    const key = canonicalGuid && canonicalGuid !== canonicalLink
+        ? `${canonicalLink}\n${canonicalGuid}`
+        : canonicalLink;
+    return 'rss_' + sha256Hex(key).slice(0, ID_HASH_LENGTH);
+};
+
+// Telegram posts are identified by channel + message id, whether scraped or bot-archived
+export const telegramArticleId = (channel: string, messageId: string | number): string => {
+    return `tg_${channel.toLowerCase()}_${messageId}`;
+};
+
+// Fallback for Telegram posts without a message id: content-derived instead of random
+export const contentArticleId = (prefix: string, ...parts: string[]): string => {
+    return prefix + sha256Hex(parts.join('\n')).slice(0, ID_HASH_LENGTH);
+};
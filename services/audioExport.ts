@@ -0,0 +1,52 @@
+import { generateNewsAudio } from './geminiService';
+import { encodeOggOpus, isOpusEncodingSupported } from '../utils/opus';
+import { AudioMetadata, PCM_CHANNELS, PCM_SAMPLE_RATE, base64ToBytes, encodeWav } from '../utils/wav';
+
+/**
+ * Narration downloads. The chunks come from the same TTS caches as playback, so saving a
+ * bulletin that was just listened to costs no extra generation.
+ */
+
+export type AudioDownloadFormat = 'opus' | 'wav';
+
+export interface AudioDownload {
+    blob: Blob;
+    filename: string;
+}
+
+const FILE_EXTENSIONS: Record<AudioDownloadFormat, string> = { opus: 'ogg', wav: 'wav' };
+
+// Compressed first: that's the one people forward
+export const getAudioDownloadFormats = async (): Promise<AudioDownloadFormat[]> => {
+    return (await isOpusEncodingSupported()) ? ['opus', 'wav'] : ['wav'];
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        joined.set(part, offset);
+        offset += part.length;
+    });
+    return joined;
+};
+
+// Keeps letters in any script so Urdu or Hindi titles still give a readable file name
+const fileSlug = (title: string): string => {
+    return title.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'news-pulse-audio';
+};
+
+export const createNarrationDownload = async (
+    text: string,
+    languageCode: string,
+    format: AudioDownloadFormat,
+    metadata: AudioMetadata
+): Promise<AudioDownload> => {
+    const chunks = generateNewsAudio(text, languageCode);
+    const pcm = concatBytes((await Promise.all(chunks.map(chunk => chunk.audio))).map(base64ToBytes));
+
+    const blob = format === 'opus'
+        ? await encodeOggOpus(pcm, metadata)
+        : encodeWav(pcm, PCM_SAMPLE_RATE, PCM_CHANNELS, metadata);
+    return { blob, filename: `${fileSlug(metadata.title)}.${languageCode}.${FILE_EXTENSIONS[format]}` };
+};
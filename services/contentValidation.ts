@@ -0,0 +1,80 @@
+/**
+ * Runtime checks for model output before it is shown or cached. Every field must be a
+ * non-trivial string written in the expected script; a few common shape slips are repaired.
+ */
+
+export interface FieldSpec {
+    name: string;
+    script: string;     // ISO 15924 code, as in the language registry
+    minLength: number;
+}
+
+export interface FieldValidation {
+    values: Record<string, string>;
+    invalid: string[];  // Names of fields that are missing, malformed or in the wrong script
+}
+
+// Share of letters that must be in the expected script; names and acronyms may stay Latin
+const MIN_SCRIPT_SHARE = 0.8;
+
+const UNICODE_SCRIPTS: Record<string, string> = {
+    Latn: 'Latin',
+    Arab: 'Arabic',
+    Deva: 'Devanagari',
+    Telu: 'Telugu',
+    Knda: 'Kannada',
+    Taml: 'Tamil',
+    Beng: 'Bengali',
+    Gujr: 'Gujarati',
+    Guru: 'Gurmukhi',
+    Mlym: 'Malayalam',
+    Orya: 'Oriya'
+};
+
+export const scriptName = (script: string): string => UNICODE_SCRIPTS[script] || script;
+
+const scriptPatterns = new Map<string, RegExp>();
+
+const scriptPattern = (script: string): RegExp | null => {
+    const name = UNICODE_SCRIPTS[script];
+    if (!name) return null;
+    if (!scriptPatterns.has(script)) scriptPatterns.set(script, new RegExp(`(?=\\p{L})\\p{Script=${name}}`, 'gu'));
+    return scriptPatterns.get(script)!;
+};
+
+// Fraction of the letters in `text` that belong to `script` (1 for unknown scripts or letterless text)
+export const scriptShare = (text: string, script: string): number => {
+    const pattern = scriptPattern(script);
+    const letters = (text.match(/\p{L}/gu) || []).length;
+    if (!pattern || letters === 0) return 1;
+    return (text.match(pattern) || []).length / letters;
+};
+
+export const isInScript = (text: string, script: string): boolean => scriptShare(text, script) >= MIN_SCRIPT_SHARE;
+
+// Fixes slips that don't change meaning: paragraphs as an array, code fences, stray wrapping quotes
+const repairField = (value: unknown): string | null => {
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) value = value.join('\n\n');
+    if (typeof value !== 'string') return null;
+    return value
+        .replace(/^```\w*\s*|\s*```$/g, '')
+        .replace(/^"([\s\S]*)"$/, '$1')
+        .replace(/\\n/g, '\n')
+        .trim();
+};
+
+export const validateFields = (raw: any, fields: FieldSpec[]): FieldValidation => {
+    const values: Record<string, string> = {};
+    const invalid: string[] = [];
+    const source = raw && typeof raw === 'object' ? raw : {};
+
+    fields.forEach(field => {
+        const value = repairField(source[field.name]);
+        if (value === null || value.length < field.minLength || !isInScript(value, field.script)) {
+            invalid.push(field.name);
+        } else {
+            values[field.name] = value;
+        }
+    });
+    return { values, invalid };
+};
@@ -0,0 +1,111 @@
+import { Category, Article, FeedHealth } from '../types';
+import { RSS_FEEDS, PRODUCTION_URL } from '../constants';
+import { detectFeedFormat, parseFeed } from './feedParser';
+import { clusterArticles } from './storyClustering';
+import { sortByPublishedAt } from '../utils/time';
+import { createFeedHealth, isFeedQuarantined, recordFeedSuccess, recordFeedFailure } from './feedHealth';
+
+/**
+ * Server-side feed aggregation. Fetches feeds directly (no CORS proxies),
+ * so it is meant to run in the Vercel `api/` functions, not in the browser.
+ */
+
+const FEED_FETCH_TIMEOUT = 10000; // 10s per feed
+const USER_AGENT = `NewsPulseAI/1.0 (+${PRODUCTION_URL})`;
+
+// Per-feed-URL cache entry: the validators from the last 200 plus the articles it produced
+export interface FeedCacheEntry {
+    etag?: string;
+    lastModified?: string;
+    articles: Article[];
+    fetchedAt: string;
+}
+
+export type FeedCacheState = Record<string, FeedCacheEntry>;
+
+/**
+ * Fetches one feed with a conditional GET when validators are known.
+ * A 304 reuses the cached articles and counts as a refresh; a body that yields no
+ * articles throws, so the feed's health records it as a failure.
+ */
+export const fetchFeed = async (url: string, category: Category, cached?: FeedCacheEntry): Promise<FeedCacheEntry> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FEED_FETCH_TIMEOUT);
+
+    const headers: Record<string, string> = {
+        'User-Agent': USER_AGENT,
+        'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8'
+    };
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    try {
+        const response = await fetch(url, { signal: controller.signal, headers });
+
+        if (response.status === 304 && cached) {
+            return { ...cached, fetchedAt: new Date().toISOString() };
+        }
+
+        if (!response.ok) throw new Error(`Feed status ${response.status}`);
+
+        // A 200 with nothing usable (error page, captive portal, emptied feed) is a failure, not a refresh
+        const content = await response.text();
+        if (!detectFeedFormat(content)) throw new Error('Not a feed: unrecognised format');
+        const articles = parseFeed(content, url, category);
+        if (articles.length === 0) throw new Error('Feed parsed to no items');
+
+        return {
+            etag: response.headers.get('ETag') || undefined,
+            lastModified: response.headers.get('Last-Modified') || undefined,
+            articles,
+            fetchedAt: new Date().toISOString()
+        };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+export interface AggregationState {
+    feeds?: FeedCacheState; // Per-feed state from the last run so unchanged feeds answer 304
+    health?: Record<string, FeedHealth>;
+    feedUrls?: string[]; // Defaults to RSS_FEEDS[category]; pass a list to aggregate a local stub instead
+}
+
+/**
+ * Fetches every feed of a category in parallel and merges them into one list.
+ * Quarantined feeds are not contacted until their retry time; a failing or skipped feed
+ * keeps its previous entry (or is left out) so one dead source can't empty the category.
+ */
+export const aggregateCategory = async (
+    category: Category,
+    state: AggregationState = {}
+): Promise<{ articles: Article[]; feeds: FeedCacheState; health: Record<string, FeedHealth> }> => {
+    const previous = state.feeds || {};
+    const feedUrls = state.feedUrls || RSS_FEEDS[category] || [];
+    const feeds: FeedCacheState = {};
+    const health: Record<string, FeedHealth> = {};
+
+    await Promise.all(feedUrls.map(async (url) => {
+        const record = state.health?.[url] || createFeedHealth(url, category);
+
+        if (isFeedQuarantined(record)) {
+            health[url] = record;
+            if (previous[url]) feeds[url] = previous[url];
+            return;
+        }
+
+        const startedAt = Date.now();
+        try {
+            feeds[url] = await fetchFeed(url, category, previous[url]);
+            health[url] = recordFeedSuccess(record, Date.now() - startedAt);
+        } catch (e: any) {
+            console.warn(`[Feeds] ${url} failed`, e);
+            health[url] = recordFeedFailure(record, e?.name === 'AbortError' ? 'Timed out' : String(e?.message || e));
+            if (previous[url]) feeds[url] = previous[url];
+        }
+    }));
+
+    // Merge in RSS_FEEDS order so the result doesn't depend on which feed answered first
+    const articles = feedUrls.flatMap(url => feeds[url]?.articles || []);
+    return { articles: sortByPublishedAt(clusterArticles(articles)), feeds, health };
+};
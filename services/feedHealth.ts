@@ -0,0 +1,89 @@
+import { Category, FeedHealth, FeedHealthStatus } from '../types';
+
+/**
+ * Per-feed health bookkeeping. Pure functions over FeedHealth records so the
+ * aggregator, the API route and the admin view all agree on the rules.
+ */
+
+const QUARANTINE_AFTER_FAILURES = 3;
+const BASE_BACKOFF = 5 * 60 * 1000; // 5 Minutes after the first quarantine
+const MAX_BACKOFF = 24 * 60 * 60 * 1000; // Retry dead feeds at least daily
+const LATENCY_WEIGHT = 0.3; // Exponential moving average weight of the newest sample
+
+export const createFeedHealth = (feedUrl: string, category: Category): FeedHealth => ({
+    feedUrl,
+    category,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    consecutiveFailures: 0,
+    avgLatencyMs: null,
+    lastError: null,
+    retryAt: null
+});
+
+export const recordFeedSuccess = (health: FeedHealth, latencyMs: number, now: number = Date.now()): FeedHealth => ({
+    ...health,
+    lastSuccessAt: new Date(now).toISOString(),
+    consecutiveFailures: 0,
+    avgLatencyMs: health.avgLatencyMs === null
+        ? Math.round(latencyMs)
+        : Math.round(health.avgLatencyMs * (1 - LATENCY_WEIGHT) + latencyMs * LATENCY_WEIGHT),
+    retryAt: null
+});
+
+/**
+ * Records a failure. From the third consecutive failure on the feed is quarantined
+ * with an exponential backoff (5m, 10m, 20m ... capped at 24h).
+ */
+export const recordFeedFailure = (health: FeedHealth, error: string, now: number = Date.now()): FeedHealth => {
+    const failures = health.consecutiveFailures + 1;
+    let retryAt: string | null = null;
+
+    if (failures >= QUARANTINE_AFTER_FAILURES) {
+        const backoff = Math.min(BASE_BACKOFF * Math.pow(2, failures - QUARANTINE_AFTER_FAILURES), MAX_BACKOFF);
+        retryAt = new Date(now + backoff).toISOString();
+    }
+
+    return {
+        ...health,
+        lastFailureAt: new Date(now).toISOString(),
+        consecutiveFailures: failures,
+        lastError: error.slice(0, 500),
+        retryAt
+    };
+};
+
+// A quarantined feed is skipped until its retry time has passed
+export const isFeedQuarantined = (health: FeedHealth | undefined, now: number = Date.now()): boolean => {
+    return !!health?.retryAt && new Date(health.retryAt).getTime() > now;
+};
+
+export const getFeedHealthStatus = (health: FeedHealth, now: number = Date.now()): FeedHealthStatus => {
+    if (isFeedQuarantined(health, now)) return 'quarantined';
+    if (health.consecutiveFailures > 0) return 'failing';
+    return 'healthy';
+};
+
+// --- Supabase `feed_health` row mapping ---
+
+export const toFeedHealthRow = (health: FeedHealth) => ({
+    feed_url: health.feedUrl,
+    category: health.category,
+    last_success_at: health.lastSuccessAt,
+    last_failure_at: health.lastFailureAt,
+    consecutive_failures: health.consecutiveFailures,
+    avg_latency_ms: health.avgLatencyMs,
+    last_error: health.lastError,
+    retry_at: health.retryAt
+});
+
+export const fromFeedHealthRow = (row: any): FeedHealth => ({
+    feedUrl: row.feed_url,
+    category: row.category,
+    lastSuccessAt: row.last_success_at ?? null,
+    lastFailureAt: row.last_failure_at ?? null,
+    consecutiveFailures: row.consecutive_failures ?? 0,
+    avgLatencyMs: row.avg_latency_ms ?? null,
+    lastError: row.last_error ?? null,
+    retryAt: row.retry_at ?? null
+});
@@ -0,0 +1,387 @@
+import { Category, Article, MediaAttachment, MediaKind, TelegramMediaType, TelegramPostRow } from '../types';
+import { ASSET_LOGO_URL, TELEGRAM_CHANNEL_URL } from '../constants';
+import {
+    MarkupNode, parseMarkup, elements, localName, findAll, findFirst, hasClass,
+    textContent, nodeToText, htmlToText, extractFirstImage, extractBgImage
+} from '../utils/markup';
+import { formatArticleTime, toIsoDate } from '../utils/time';
+import { feedArticleId, telegramArticleId, contentArticleId } from './articleIds';
+
+/**
+ * Pure feed parsing: no DOMParser, document or window access, so the same code
+ * runs in the browser, in the Vercel `api/` functions and in headless tests.
+ */
+
+export type FeedFormat = 'rss2' | 'rdf' | 'atom' | 'jsonfeed';
+
+// Normalized shape every feed format is mapped into before becoming an Article
+interface FeedItem {
+    title: string;
+    link: string;
+    guid: string;
+    pubDate: string;
+    html: string;
+    imageUrl: string;
+}
+
+export const getSourceName = (feedUrl: string): string => {
+    let host: string;
+    try {
+        host = new URL(feedUrl).hostname;
+    } catch (e) {
+        return 'NEWS'; // Unparseable feed URL: the source is unknown, not the feed's items
+    }
+    return host.replace('www.', '').replace('feeds.', '').split('.')[0].toUpperCase();
+};
+
+export const detectFeedFormat = (content: string): FeedFormat | null => {
+    const trimmed = content.trim();
+    if (trimmed.startsWith('{')) {
+        try {
+            const json = JSON.parse(trimmed);
+            if (typeof json.version === 'string' && json.version.includes('jsonfeed.org') && Array.isArray(json.items)) {
+                return 'jsonfeed';
+            }
+        } catch (e) {}
+        return null;
+    }
+
+    // Look at the root element only, skipping the prolog, comments and doctype
+    const rootMatch = trimmed.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, '').match(/<([\w:.-]+)/);
+    if (!rootMatch) return null;
+
+    const root = rootMatch[1].toLowerCase();
+    if (root === 'rss') return 'rss2';
+    if (root === 'rdf:rdf' || root === 'rdf') return 'rdf';
+    if (root === 'feed' || root.endsWith(':feed')) return 'atom';
+    return null;
+};
+
+// --- XML helpers (match on local name so namespace prefixes don't matter) ---
+
+const children = (el: MarkupNode, name: string): MarkupNode[] => {
+    return elements(el).filter(c => c.name === name || localName(c) === name);
+};
+
+const childText = (el: MarkupNode, ...names: string[]): string => {
+    for (const name of names) {
+        const child = children(el, name)[0];
+        const text = child ? textContent(child).trim() : '';
+        if (text) return text;
+    }
+    return '';
+};
+
+const mediaImage = (el: MarkupNode): string => {
+    const media = children(el, 'media:content')[0] || children(el, 'media:thumbnail')[0];
+    if (media?.attrs['url']) return media.attrs['url'];
+
+    const group = children(el, 'media:group')[0];
+    if (group) return mediaImage(group);
+
+    return '';
+};
+
+const parseRssItems = (doc: MarkupNode): FeedItem[] => {
+    // RSS 1.0 puts items as siblings of <channel>, RSS 2.0 nests them inside it
+    return findAll(doc, el => localName(el) === 'item').map(item => {
+        const enclosure = children(item, 'enclosure').find(e => (e.attrs['type'] || '').startsWith('image'));
+        return {
+            title: childText(item, 'title'),
+            link: childText(item, 'link') || item.attrs['rdf:about'] || '',
+            guid: childText(item, 'guid') || item.attrs['rdf:about'] || '',
+            pubDate: childText(item, 'pubDate', 'dc:date', 'date'),
+            html: childText(item, 'content:encoded', 'encoded') || childText(item, 'description'),
+            imageUrl: mediaImage(item) || enclosure?.attrs['url'] || ''
+        };
+    });
+};
+
+const parseAtomEntries = (doc: MarkupNode): FeedItem[] => {
+    return findAll(doc, el => localName(el) === 'entry').map(entry => {
+        const links = children(entry, 'link');
+        const alternate = links.find(l => !l.attrs['rel'] || l.attrs['rel'] === 'alternate');
+        const imageEnclosure = links.find(l =>
+            l.attrs['rel'] === 'enclosure' && (l.attrs['type'] || '').startsWith('image')
+        );
+
+        return {
+            title: childText(entry, 'title'),
+            link: (alternate || links[0])?.attrs['href'] || '',
+            guid: childText(entry, 'id'),
+            pubDate: childText(entry, 'published', 'updated'),
+            html: childText(entry, 'content') || childText(entry, 'summary'),
+            imageUrl: mediaImage(entry) || imageEnclosure?.attrs['href'] || ''
+        };
+    });
+};
+
+// JSON Feed fields are whatever the publisher put there: numbers, nulls, even objects
+const jsonString = (...values: unknown[]): string => {
+    const value = values.find(v => v !== null && v !== undefined && v !== '');
+    return value === undefined ? '' : String(value);
+};
+
+const parseJsonFeedItems = (content: string): FeedItem[] => {
+    const json = JSON.parse(content);
+    return (json.items as any[]).filter(item => item && typeof item === 'object').map(item => ({
+        title: jsonString(item.title),
+        link: jsonString(item.url, item.external_url, item.id),
+        guid: jsonString(item.id),
+        pubDate: jsonString(item.date_published, item.date_modified),
+        html: jsonString(item.content_html, item.content_text, item.summary),
+        imageUrl: jsonString(item.image, item.banner_image)
+    }));
+};
+
+const toArticle = (item: FeedItem, sourceName: string, category: Category): Article => {
+    const fullCleanText = htmlToText(item.html);
+
+    // Create Short Summary for Card
+    const cardDescription = fullCleanText.length > 200
+        ? fullCleanText.substring(0, 200) + "..."
+        : fullCleanText;
+
+    return {
+        id: feedArticleId(item.link, item.guid),
+        title: htmlToText(item.title) || "No Title",
+        source: sourceName,
+        timestamp: 'Recent',
+        publishedAt: toIsoDate(item.pubDate),
+        description: cardDescription, // Truncated for UI Card
+        content: fullCleanText, // Full text for Modal/AI
+        category: category,
+        url: item.link,
+        imageUrl: item.imageUrl || extractFirstImage(item.html)
+    };
+};
+
+/**
+ * Parses RSS 2.0, RSS 1.0 (RDF), Atom 1.0 or JSON Feed content into Articles.
+ * Returns an empty array when the format is unknown or the document is malformed.
+ */
+export const parseFeed = (content: string, feedUrl: string, category: Category): Article[] => {
+    const format = detectFeedFormat(content);
+    if (!format) return [];
+
+    try {
+        let items: FeedItem[];
+        if (format === 'jsonfeed') {
+            items = parseJsonFeedItems(content);
+        } else {
+            const doc = parseMarkup(content);
+            items = format === 'atom' ? parseAtomEntries(doc) : parseRssItems(doc);
+        }
+
+        const sourceName = getSourceName(feedUrl);
+        return items
+            .filter(item => item.title || item.link)
+            .map(item => toArticle(item, sourceName, category));
+    } catch (e) {
+        console.warn(`Feed parse failed for ${feedUrl}`, e);
+        return [];
+    }
+};
+
+/**
+ * Title for a Telegram post: its first non-empty line, cut at 80 characters, or a
+ * placeholder naming the media when the post has no text.
+ */
+export const telegramPostTitle = (text: string, mediaType: TelegramMediaType | MediaKind | null): string => {
+    const firstLine = text.split('\n').find(line => line.trim().length > 0)?.trim();
+    if (firstLine) return firstLine.length > 80 ? firstLine.substring(0, 80) + "..." : firstLine;
+    if (mediaType === 'video' || mediaType === 'animation') return "New Video Upload";
+    if (mediaType === 'photo' || mediaType === 'image') return "New Image Upload";
+    if (mediaType === 'audio' || mediaType === 'voice') return "New Audio Upload";
+    if (mediaType === 'document') return "New File Upload";
+    return "Azad Studio Update";
+};
+
+// Widget view counts are abbreviated: "987", "1.2K", "3.4M"
+const parseViewCount = (text: string): number | undefined => {
+    const match = text.trim().match(/^([\d.]+)\s*([KM]?)$/i);
+    if (!match) return undefined;
+    const multiplier = { '': 1, K: 1000, M: 1000000 }[match[2].toUpperCase() as '' | 'K' | 'M'];
+    return Math.round(parseFloat(match[1]) * multiplier);
+};
+
+// "0:42" or "1:02:05" -> seconds
+const parseClockDuration = (text: string): number | undefined => {
+    const parts = text.trim().split(':').map(Number);
+    if (parts.length < 2 || parts.some(isNaN)) return undefined;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Photos, playable videos, voice notes and files of a widget post, in post order (albums have several)
+const widgetAttachments = (msg: MarkupNode, postUrl: string): MediaAttachment[] => {
+    const attachments: MediaAttachment[] = [];
+    const media = findAll(msg, n =>
+        hasClass(n, 'tgme_widget_message_photo_wrap') ||
+        hasClass(n, 'tgme_widget_message_video_player') ||
+        hasClass(n, 'tgme_widget_message_voice_player') ||
+        hasClass(n, 'tgme_widget_message_document')
+    );
+
+    media.forEach(node => {
+        if (hasClass(node, 'tgme_widget_message_photo_wrap')) {
+            const url = extractBgImage(node.attrs['style'] || '');
+            if (url) attachments.push({ kind: 'image', url });
+        } else if (hasClass(node, 'tgme_widget_message_video_player')) {
+            // Videos too large for the widget have no src; the cover logic still shows their thumbnail
+            const src = findFirst(node, n => n.name === 'video')?.attrs['src'];
+            const thumb = findFirst(node, n => hasClass(n, 'tgme_widget_message_video_thumb'));
+            if (src) attachments.push({ kind: 'video', url: src, thumbnailUrl: extractBgImage(thumb?.attrs['style'] || '') || undefined });
+        } else if (hasClass(node, 'tgme_widget_message_voice_player')) {
+            const src = findFirst(node, n => n.name === 'audio')?.attrs['src'];
+            const duration = findFirst(node, n => hasClass(n, 'tgme_widget_message_voice_duration'));
+            if (src) attachments.push({ kind: 'voice', url: src, duration: duration ? parseClockDuration(textContent(duration)) : undefined });
+        } else {
+            // The widget doesn't expose file URLs, so documents link to the post
+            const title = findFirst(node, n => hasClass(n, 'tgme_widget_message_document_title'));
+            attachments.push({ kind: 'document', url: postUrl, fileName: title ? textContent(title).trim() : undefined });
+        }
+    });
+    return attachments;
+};
+
+/**
+ * Parses the public Telegram channel preview (t.me/s/<channel>) widget HTML.
+ * Posts are returned newest first.
+ */
+export const parseTelegramWidget = (html: string): Article[] => {
+    if (!html || !html.includes('tgme_widget_message')) return [];
+
+    const doc = parseMarkup(html, { html: true });
+    const messages = findAll(doc, n => hasClass(n, 'tgme_widget_message'));
+
+    return messages.map((msg) => {
+        const post = msg.attrs['data-post'] || ''; // "<channel>/<message id>"
+
+        // Extract Text
+        const textEl = findFirst(msg, n => hasClass(n, 'tgme_widget_message_text'));
+        let rawText = textEl ? nodeToText(textEl) : '';
+
+        // Extract Date
+        const timeEl = findFirst(msg, n => hasClass(n, 'time') && !!n.attrs['datetime']);
+        const publishedAt = toIsoDate(timeEl?.attrs['datetime']);
+
+        // Extract Image
+        const photoWrap = findFirst(msg, n => hasClass(n, 'tgme_widget_message_photo_wrap'));
+        let imageUrl = '';
+        let videoUrl = '';
+        let mediaType: 'image' | 'video' = 'image';
+
+        if (photoWrap) {
+            imageUrl = extractBgImage(photoWrap.attrs['style'] || '');
+        }
+
+        // Extract Video
+        const videoWrap = findFirst(msg, n => hasClass(n, 'tgme_widget_message_video_player'));
+        if (videoWrap) {
+            mediaType = 'video';
+            const thumb = findFirst(videoWrap, n => hasClass(n, 'tgme_widget_message_video_thumb'));
+            if (!imageUrl) imageUrl = extractBgImage(thumb?.attrs['style'] || '');
+
+            // Try to get actual video src
+            const videoTag = findFirst(videoWrap, n => n.name === 'video');
+            if (videoTag) {
+                videoUrl = videoTag.attrs['src'] || '';
+            }
+        }
+
+        const url = post ? `https://t.me/${post}` : TELEGRAM_CHANNEL_URL;
+        const attachments = widgetAttachments(msg, url);
+        const title = telegramPostTitle(rawText, attachments[0]?.kind || (videoWrap ? 'video' : imageUrl ? 'image' : null));
+        const viewsEl = findFirst(msg, n => hasClass(n, 'tgme_widget_message_views'));
+
+        // If no text, use a generic description
+        if (!rawText) rawText = "Check out this update from Azad Studio Official.";
+
+        return {
+            id: post
+                ? telegramArticleId(post.split('/')[0], post.split('/')[1])
+                : contentArticleId('tg_', publishedAt || '', rawText, imageUrl, videoUrl),
+            title: title,
+            source: 'Azad Studio Live',
+            timestamp: formatArticleTime({ publishedAt, timestamp: 'Recent' }),
+            publishedAt: publishedAt,
+            description: rawText,
+            content: rawText,
+            category: Category.AZAD_STUDIO,
+            url,
+            imageUrl: imageUrl || ASSET_LOGO_URL,
+            videoUrl: videoUrl,
+            mediaType: mediaType,
+            attachments,
+            views: viewsEl ? parseViewCount(textContent(viewsEl)) : undefined,
+            descriptionTranslations: { 'ur-Latn': rawText } // The channel posts in Roman Urdu
+        };
+    }).reverse();
+};
+
+// Rows archived before media was copied to our store hold Telegram file links, which expire and embed the bot token
+const isTelegramFileLink = (url: string) => url.includes('api.telegram.org/file/');
+
+// Rows written before attachments existed only have media_url / media_type
+const rowAttachments = (row: TelegramPostRow): MediaAttachment[] => {
+    if (row.attachments && row.attachments.length > 0) return row.attachments.filter(a => !isTelegramFileLink(a.url));
+    if (!row.media_url || isTelegramFileLink(row.media_url)) return [];
+    return [{ kind: !row.media_type || row.media_type === 'photo' ? 'image' : row.media_type, url: row.media_url }];
+};
+
+// Cover fields for cards that show one item: the first image, or the first video with its thumbnail
+const coverMedia = (attachments: MediaAttachment[]): Pick<Article, 'imageUrl' | 'videoUrl' | 'mediaType'> => {
+    const visual = attachments.find(a => a.kind === 'image' || a.kind === 'video' || a.kind === 'animation');
+    if (!visual) return { imageUrl: ASSET_LOGO_URL, videoUrl: '', mediaType: 'image' };
+    if (visual.kind === 'image') return { imageUrl: visual.url, videoUrl: '', mediaType: 'image' };
+    return { imageUrl: visual.thumbnailUrl || ASSET_LOGO_URL, videoUrl: visual.url, mediaType: 'video' };
+};
+
+// Album messages are stored as separate rows sharing a media_group_id; each album becomes one group, in message order
+const groupAlbumRows = (rows: TelegramPostRow[]): TelegramPostRow[][] => {
+    const groups = new Map<string, TelegramPostRow[]>();
+    rows.forEach(row => {
+        const key = row.media_group_id ? `${row.chat_id}:${row.media_group_id}` : `${row.chat_id}/${row.message_id}`;
+        const group = groups.get(key);
+        if (group) group.push(row);
+        else groups.set(key, [row]);
+    });
+    return Array.from(groups.values()).map(group => group.sort((a, b) => a.message_id - b.message_id));
+};
+
+/**
+ * Maps `telegram_posts` rows from the channel bot to articles, one per post or album and
+ * in the order given. Same IDs and shape as the widget parser, so cached AI content
+ * carries over between the two sources.
+ */
+export const parseTelegramPostRows = (rows: TelegramPostRow[], defaultChannel: string): Article[] => {
+    return groupAlbumRows(rows).map(group => {
+        const first = group[0];
+        const captioned = group.find(row => row.message) || first; // An album's caption sits on one of its messages
+        const channel = first.channel || defaultChannel;
+        const text = captioned.message || '';
+        const attachments = group.flatMap(rowAttachments);
+        const publishedAt = toIsoDate(first.posted_at || first.created_at);
+        const description = text || "Check out this update from Azad Studio Official.";
+        const views = group.map(row => row.views).filter((v): v is number => v !== null && v !== undefined);
+        const editedAt = group.map(row => toIsoDate(row.edited_at)).filter(Boolean).sort().pop();
+
+        return {
+            id: telegramArticleId(channel, first.message_id),
+            title: captioned.title || telegramPostTitle(text, first.media_type),
+            source: 'Azad Studio Live',
+            timestamp: formatArticleTime({ publishedAt, timestamp: 'Recent' }), // Same label as the widget gives the post
+            publishedAt,
+            description,
+            content: description,
+            category: Category.AZAD_STUDIO,
+            url: `https://t.me/${channel}/${first.message_id}`,
+            ...coverMedia(attachments),
+            attachments,
+            views: views.length > 0 ? Math.max(...views) : undefined,
+            editedAt,
+            pinned: group.some(row => row.pinned) || undefined,
+            descriptionTranslations: { 'ur-Latn': description } // The channel posts in Roman Urdu
+        };
+    });
+};
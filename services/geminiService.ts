@@ -1,6 +1,15 @@
-import { GoogleGenAI, Type, Modality, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { EnhancedArticleContent } from "../types";
+import { GoogleGenAI, Type, Modality, HarmCategory, HarmBlockThreshold, Schema, FinishReason } from "@google/genai";
+import { EnhancedArticleContent, ArticleTranslation, LanguageCode, AiCacheInfo } from "../types";
 import { supabase, isSupabaseConfigured } from "./supabaseClient";
+import { groundArticle } from "./grounding";
+import { getLanguage } from "../languages";
+import { readPartialJsonString } from "../utils/partialJson";
+import { FieldSpec, validateFields, scriptName } from "./contentValidation";
+import { AI_CACHE_TTL_DAYS } from "../constants";
+import { getEnv } from "../utils/env";
+import { createLruCache, jsonByteSize, LruCacheStats } from "../utils/lruCache";
+import { getStoredAudio, storeAudio } from "../utils/audioStore";
+import { chunkSpeechText } from "../utils/speechChunks";
 
 let ai: GoogleGenAI | null = null;
 
@@ -15,17 +24,75 @@ const getAI = () => {
   return ai;
 };
 
-const articleMemoryCache = new Map<string, EnhancedArticleContent>();
-const audioMemoryCache = new Map<string, string>();
+// Extracted pages can run to tens of thousands of characters; the lead carries the story
+const MAX_SOURCE_CHARS = 12000;
 
-export const getDeviceVoiceLang = (tab: string): string => {
-    switch (tab) {
-        case 'urdu': return 'ur-IN';
-        case 'hindi': return 'hi-IN';
-        case 'telugu': return 'te-IN';
-        case 'roman': return 'hi-IN'; // Roman Urdu often reads better with Hindi voice
-        default: return 'en-IN';
+const TEXT_MODEL = "gemini-2.5-flash";
+
+// Bump when a prompt changes enough that cached output should be regenerated
+const ENHANCE_PROMPT_VERSION = 2;
+const TRANSLATE_PROMPT_VERSION = 2;
+
+const AI_CACHE_TTL = AI_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+const AI_CACHE_API_URL = getEnv('AI_CACHE_API_URL') || '/api/ai-cache';
+
+// Memory budgets sized for low-end phones; audio is also kept in IndexedDB
+const articleMemoryCache = createLruCache<EnhancedArticleContent>({ name: 'articles', maxBytes: 2 * 1024 * 1024, sizeOf: jsonByteSize });
+const translationMemoryCache = createLruCache<ArticleTranslation>({ name: 'translations', maxBytes: 4 * 1024 * 1024, sizeOf: jsonByteSize });
+const audioMemoryCache = createLruCache<string>({ name: 'audio', maxBytes: 24 * 1024 * 1024, sizeOf: audio => audio.length * 2 }); // JS strings are UTF-16, as jsonByteSize counts
+
+export const getMemoryCacheStats = (): LruCacheStats[] => [
+    articleMemoryCache.stats(),
+    translationMemoryCache.stats(),
+    audioMemoryCache.stats()
+];
+
+// Field suffixes of the flat per-language shape (`summaryUrdu`, `fullArticleTelugu`...) cached before the language registry
+const LEGACY_FIELD_SUFFIXES: Record<LanguageCode, string> = {
+    'ur-Latn': 'RomanUrdu',
+    'ur': 'Urdu',
+    'hi': 'Hindi',
+    'te': 'Telugu'
+};
+
+// Accepts model output, the language-keyed map and legacy cached rows alike
+const normalizeEnhancedContent = (raw: any): EnhancedArticleContent => {
+    const translations: Record<LanguageCode, ArticleTranslation> = {};
+
+    if (raw.translations && typeof raw.translations === 'object') {
+        Object.assign(translations, raw.translations);
     }
+
+    Object.entries(LEGACY_FIELD_SUFFIXES).forEach(([code, suffix]) => {
+        const summary = raw[`summary${suffix}`];
+        const fullArticle = raw[`fullArticle${suffix}`];
+        if (!translations[code] && (summary || fullArticle)) {
+            translations[code] = { summary: summary || '', fullArticle: fullArticle || '' };
+        }
+    });
+
+    const content: EnhancedArticleContent = {
+        fullArticle: raw.fullArticle || '',
+        summaryShort: raw.summaryShort || '',
+        translations
+    };
+    if (raw.grounding) content.grounding = raw.grounding;
+    if (raw.cacheInfo) content.cacheInfo = raw.cacheInfo;
+    return content;
+};
+
+const createCacheInfo = (promptVersion: number): AiCacheInfo => ({
+    promptVersion,
+    model: TEXT_MODEL,
+    createdAt: new Date().toISOString()
+});
+
+// Unstamped rows predate versioning and count as outdated
+const isFresh = (info: AiCacheInfo | undefined, promptVersion: number): boolean => {
+    return !!info
+        && info.promptVersion === promptVersion
+        && info.model === TEXT_MODEL
+        && Date.now() - new Date(info.createdAt).getTime() < AI_CACHE_TTL;
 };
 
 const parseJSONSafe = (text: string): any => {
@@ -47,128 +114,234 @@ const parseJSONSafe = (text: string): any => {
     }
 };
 
+/**
+ * Strips sentences with names, numbers or quotes the source doesn't contain. Translations
+ * were written from the unchecked English, so when anything is removed the full translated
+ * articles are dropped and the tabs fall back to their summaries.
+ */
+const applyGrounding = (content: EnhancedArticleContent, title: string, source: string): EnhancedArticleContent => {
+    if (content.grounding) return content;
+
+    const sourceText = `${title}\n${source}`;
+    const article = groundArticle(content.fullArticle, sourceText);
+    const summary = groundArticle(content.summaryShort, sourceText);
+    const removedSentences = article.report.removedSentences + summary.report.removedSentences;
+
+    const grounded: EnhancedArticleContent = {
+        ...content,
+        grounding: {
+            removedSentences,
+            unsupportedClaims: Array.from(new Set([...article.report.unsupportedClaims, ...summary.report.unsupportedClaims])),
+            checkedAt: article.report.checkedAt
+        }
+    };
+    if (article.report.removedSentences > 0) {
+        grounded.fullArticle = article.text === sourceText ? source : article.text;
+        grounded.translations = Object.fromEntries(
+            Object.entries(content.translations).map(([code, t]) => [code, { summary: t.summary }])
+        );
+    }
+    if (summary.report.removedSentences > 0) {
+        grounded.summaryShort = summary.text === sourceText ? source : summary.text;
+    }
+    if (removedSentences > 0) {
+        console.warn(`Grounding removed ${removedSentences} sentence(s)`, grounded.grounding!.unsupportedClaims);
+    }
+    return grounded;
+};
+
+// Safety settings to prevent blocking of sensitive news topics
+const SAFETY_SETTINGS = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE }
+];
+
+/**
+ * Strict JSON schema mode first, relaxed text mode if that fails; null when both do.
+ * With `onPartial`, the schema attempt is streamed and the raw JSON received so far is
+ * reported after every chunk. Only a stream that finished normally and parses counts.
+ */
+const generateJSON = async (
+  prompt: string,
+  responseSchema: Schema,
+  onPartial?: (json: string) => void
+): Promise<any | null> => {
+  const aiClient = getAI();
+  const request = {
+    model: TEXT_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: responseSchema,
+      safetySettings: SAFETY_SETTINGS
+    }
+  };
+
+  // ATTEMPT 1: Strict JSON Schema Mode
+  try {
+    if (onPartial) {
+        let json = '';
+        let finishReason: FinishReason | undefined;
+        for await (const chunk of await aiClient.models.generateContentStream(request)) {
+            json += chunk.text || '';
+            finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+            onPartial(json);
+        }
+        if (finishReason && finishReason !== FinishReason.STOP) {
+            throw new Error(`Stream ended early: ${finishReason}`);
+        }
+        return JSON.parse(json);
+    }
+
+    const response = await aiClient.models.generateContent(request);
+    if (response.text) {
+        return JSON.parse(response.text);
+    }
+  } catch (error) {
+      console.warn("Gemini Primary Generation Failed, attempting fallback...", error);
+  }
+
+  // ATTEMPT 2: Relaxed Text Mode (Fallback if Schema fails)
+  try {
+      const fallbackPrompt = prompt + "\n\nCRITICAL: Return ONLY valid JSON. Do not use Markdown formatting.";
+      const response = await aiClient.models.generateContent({
+          model: TEXT_MODEL,
+          contents: fallbackPrompt,
+          config: {
+              safetySettings: SAFETY_SETTINGS
+          }
+      });
+
+      if (response.text) {
+          return parseJSONSafe(response.text);
+      }
+  } catch (fallbackError) {
+      console.error("Gemini Fallback Generation Failed", fallbackError);
+  }
+  return null;
+};
+
+// While streaming, only finished sentences are checked and shown; the one being written is held back
+const groundFinishedSentences = (partial: string, sourceText: string): string => {
+    const finished = partial.replace(/[^.!?\n]*$/, '').trim();
+    if (!finished) return '';
+    const { text } = groundArticle(finished, sourceText);
+    return text === sourceText ? '' : text;
+};
+
+const objectSchema = (fields: FieldSpec[]): Schema => ({
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(field => [field.name, { type: Type.STRING }])),
+    required: fields.map(field => field.name),
+    propertyOrdering: fields.map(field => field.name)
+});
+
+/**
+ * generateJSON plus field-level validation. Fields that are missing, malformed or in the
+ * wrong script are re-requested on their own once; null if any is still invalid, so
+ * malformed output never reaches the cache.
+ */
+const generateValidated = async (
+  prompt: string,
+  fields: FieldSpec[],
+  onPartial?: (json: string) => void
+): Promise<Record<string, string> | null> => {
+  const raw = await generateJSON(prompt, objectSchema(fields), onPartial);
+  if (!raw) return null;
+
+  const { values, invalid } = validateFields(raw, fields);
+  if (invalid.length === 0) return values;
+
+  console.warn("Gemini returned invalid fields, re-requesting", invalid);
+  const retryFields = fields.filter(field => invalid.includes(field.name));
+  const retryPrompt = prompt + `\n\nReturn ONLY these fields: ${retryFields
+      .map(field => `"${field.name}" (written in ${scriptName(field.script)} script)`)
+      .join(', ')}.`;
+
+  const retry = validateFields(await generateJSON(retryPrompt, objectSchema(retryFields)), retryFields);
+  if (retry.invalid.length > 0) {
+      console.error("Gemini output still invalid after re-request", retry.invalid);
+      return null;
+  }
+  return { ...values, ...retry.values };
+};
+
+const ENGLISH_FIELDS: FieldSpec[] = [
+    { name: 'fullArticle', script: 'Latn', minLength: 40 },
+    { name: 'summaryShort', script: 'Latn', minLength: 10 }
+];
+
+const translationFields = (script: string): FieldSpec[] => [
+    { name: 'fullArticle', script, minLength: 40 },
+    { name: 'summary', script, minLength: 10 }
+];
+
+// Rows from before validation, or from a prompt that slipped without a version bump, can be empty or in the wrong script
+const isUsableEnhancement = (content: any): boolean => {
+    return isFresh(content?.cacheInfo, ENHANCE_PROMPT_VERSION) && validateFields(content, ENGLISH_FIELDS).invalid.length === 0;
+};
+
+// Rows cached under the IDs from before SHA-256 article IDs are never looked up; those articles are enhanced again
+const loadCachedArticle = async (id: string): Promise<EnhancedArticleContent | null> => {
+    const { data, error } = await supabase!
+        .from('ai_articles_cache')
+        .select('data')
+        .eq('article_id', id)
+        .single();
+
+    return data && !error && isUsableEnhancement(data.data) ? normalizeEnhancedContent(data.data) : null;
+};
+
 export const enhanceArticle = async (
   id: string,
   title: string,
-  description: string
+  description: string,
+  onProgress?: (partial: Pick<EnhancedArticleContent, 'fullArticle' | 'summaryShort'>) => void
 ): Promise<EnhancedArticleContent> => {
-  if (articleMemoryCache.has(id)) {
-    return articleMemoryCache.get(id)!;
+  const remembered = articleMemoryCache.get(id);
+  if (remembered && isUsableEnhancement(remembered)) {
+    return remembered;
   }
 
+  const source = description.length > MAX_SOURCE_CHARS ? description.slice(0, MAX_SOURCE_CHARS) + '…' : description;
+
   if (isSupabaseConfigured()) {
     try {
-        const { data, error } = await supabase!
-            .from('ai_articles_cache')
-            .select('data')
-            .eq('article_id', id)
-            .single();
-        
-        if (data && !error) {
-            const content = data.data as EnhancedArticleContent;
-            articleMemoryCache.set(id, content);
-            return content;
+        const cached = await loadCachedArticle(id);
+        if (cached) {
+            articleMemoryCache.set(id, cached);
+            return cached;
         }
     } catch (e) {}
   }
 
   const prompt = `
     Task: News Enhancement.
-    Source: "${title}" - "${description}"
+    Source: "${title}" - "${source}"
     
-    1. WRITE A FULL ARTICLE (250-300 words): Professional journalist style. Keep it concise and informative.
+    1. WRITE A FULL ARTICLE (up to 300 words): Professional journalist style. Keep it concise and informative.
+       Use ONLY facts stated in the source. Do not add names, numbers, dates or quotes that are not in it;
+       if the source is short, write a shorter article rather than filling in details.
     2. SUMMARIZE (50 words): Key facts.
-    3. TRANSLATE the *Full Article* into:
-       - Roman Urdu
-       - Urdu (Nastaliq)
-       - Hindi
-       - Telugu
     
     Output JSON only:
     {
       "fullArticle": "string",
-      "summaryShort": "string",
-      "summaryRomanUrdu": "string",
-      "summaryUrdu": "string",
-      "summaryHindi": "string",
-      "summaryTelugu": "string",
-      "fullArticleRomanUrdu": "string",
-      "fullArticleUrdu": "string",
-      "fullArticleHindi": "string",
-      "fullArticleTelugu": "string"
+      "summaryShort": "string"
     }
   `;
 
-  let content: EnhancedArticleContent | null = null;
-  const aiClient = getAI();
-  
-  // Safety settings to prevent blocking of sensitive news topics
-  const safetySettings = [
-      { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-      { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-      { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-      { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE }
-  ];
-
-  // ATTEMPT 1: Strict JSON Schema Mode
-  try {
-    const response = await aiClient.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            fullArticle: { type: Type.STRING },
-            summaryShort: { type: Type.STRING },
-            summaryRomanUrdu: { type: Type.STRING },
-            summaryUrdu: { type: Type.STRING },
-            summaryHindi: { type: Type.STRING },
-            summaryTelugu: { type: Type.STRING },
-            fullArticleRomanUrdu: { type: Type.STRING },
-            fullArticleUrdu: { type: Type.STRING },
-            fullArticleHindi: { type: Type.STRING },
-            fullArticleTelugu: { type: Type.STRING },
-          },
-          required: [
-            "fullArticle", "summaryShort", 
-            "summaryRomanUrdu", "summaryUrdu", "summaryHindi", "summaryTelugu",
-            "fullArticleRomanUrdu", "fullArticleUrdu", "fullArticleHindi", "fullArticleTelugu"
-          ]
-        },
-        safetySettings: safetySettings
-      }
-    });
-
-    if (response.text) {
-        content = JSON.parse(response.text) as EnhancedArticleContent;
-    }
-  } catch (error) {
-      console.warn("Gemini Primary Translation Failed, attempting fallback...", error);
-  }
+  const sourceText = `${title}\n${source}`;
+  const raw = await generateValidated(prompt, ENGLISH_FIELDS, onProgress && (json => onProgress({
+      fullArticle: groundFinishedSentences(readPartialJsonString(json, 'fullArticle'), sourceText),
+      summaryShort: groundFinishedSentences(readPartialJsonString(json, 'summaryShort'), sourceText)
+  })));
 
-  // ATTEMPT 2: Relaxed Text Mode (Fallback if Schema fails)
-  if (!content) {
-      try {
-          const fallbackPrompt = prompt + "\n\nCRITICAL: Return ONLY valid JSON. Do not use Markdown formatting.";
-          const response = await aiClient.models.generateContent({
-              model: "gemini-2.5-flash",
-              contents: fallbackPrompt,
-              config: {
-                  safetySettings: safetySettings
-              }
-          });
-          
-          if (response.text) {
-              content = parseJSONSafe(response.text) as EnhancedArticleContent;
-          }
-      } catch (fallbackError) {
-          console.error("Gemini Fallback Translation Failed", fallbackError);
-      }
-  }
-
-  if (content) {
+  if (raw) {
+      const content = applyGrounding(normalizeEnhancedContent(raw), title, source);
+      content.cacheInfo = createCacheInfo(ENHANCE_PROMPT_VERSION);
       articleMemoryCache.set(id, content);
       if (isSupabaseConfigured()) {
           supabase!.from('ai_articles_cache')
@@ -181,77 +354,230 @@ export const enhanceArticle = async (
       return {
           fullArticle: description || "Content currently unavailable. Please check back later.",
           summaryShort: description || "Summary unavailable.",
-          summaryRomanUrdu: "Tarjuma dastiyab nahi hai.",
-          summaryUrdu: "ترجمہ دستیاب نہیں ہے۔",
-          summaryHindi: "अनुवाद उपलब्ध नहीं है।",
-          summaryTelugu: "అనువాదం అందుబాటులో లేదు.",
-          fullArticleRomanUrdu: description || "",
-          fullArticleUrdu: "",
-          fullArticleHindi: "",
-          fullArticleTelugu: ""
+          translations: {}
       };
   }
 };
 
-export const generateNewsAudio = async (text: string): Promise<{ audioData: string }> => {
-  // Create a shorter key for cache to avoid issues with long text
-  const textSample = text.trim().slice(0, 50) + text.length;
-  const cacheKey = btoa(unescape(encodeURIComponent(textSample))); 
+// Translations live in ai_articles_cache next to the English row, one row per language
+const translationCacheKey = (id: string, code: LanguageCode) => `${id}:${code}`;
+
+/**
+ * Translates the (already grounded) English article into one registered language. Called
+ * when that language's tab is opened; throws on failure so other languages are unaffected.
+ */
+export const translateArticle = async (
+  id: string,
+  english: EnhancedArticleContent,
+  code: LanguageCode,
+  onProgress?: (partial: ArticleTranslation) => void
+): Promise<ArticleTranslation> => {
+  const language = getLanguage(code);
+  if (!language) throw new Error(`Unknown language: ${code}`);
 
-  if (audioMemoryCache.has(cacheKey)) {
-    return { audioData: audioMemoryCache.get(cacheKey)! };
+  const existing = english.translations[code];
+  if (existing?.fullArticle) return existing;
+
+  const cacheKey = translationCacheKey(id, code);
+  const remembered = translationMemoryCache.get(cacheKey);
+  if (remembered && isFresh(remembered.cacheInfo, TRANSLATE_PROMPT_VERSION)) {
+    return remembered;
   }
 
   if (isSupabaseConfigured()) {
-      try {
-          const { data, error } = await supabase!
-              .from('ai_audio_cache')
-              .select('audio_data')
-              .eq('text_hash', cacheKey)
-              .single();
-          
-          if (data && !error) {
-              audioMemoryCache.set(cacheKey, data.audio_data);
-              return { audioData: data.audio_data };
-          }
-      } catch (e) {}
+    try {
+        const { data, error } = await supabase!
+            .from('ai_articles_cache')
+            .select('data')
+            .eq('article_id', cacheKey)
+            .single();
+
+        // Outdated rows, and rows from before validation that may be in the wrong script, are regenerated
+        if (data && !error
+            && isFresh(data.data?.cacheInfo, TRANSLATE_PROMPT_VERSION)
+            && validateFields(data.data, translationFields(language.script)).invalid.length === 0) {
+            translationMemoryCache.set(cacheKey, data.data);
+            return data.data as ArticleTranslation;
+        }
+    } catch (e) {}
+  }
+
+  const prompt = `
+    Task: News Translation.
+    Translate the summary and the article below into ${language.promptName}.
+    Keep every name, number and quote; do not add, drop or change any facts.
+
+    Summary: "${english.summaryShort}"
+    Article: "${english.fullArticle}"
+
+    Output JSON only:
+    {
+      "fullArticle": "string",
+      "summary": "string"
+    }
+  `;
+
+  const raw = await generateValidated(prompt, translationFields(language.script), onProgress && (json => onProgress({
+      summary: readPartialJsonString(json, 'summary'),
+      fullArticle: readPartialJsonString(json, 'fullArticle')
+  })));
+
+  if (!raw) {
+      throw new Error(`${language.name} translation failed`);
+  }
+
+  const translation: ArticleTranslation = {
+      summary: raw.summary,
+      fullArticle: raw.fullArticle,
+      cacheInfo: createCacheInfo(TRANSLATE_PROMPT_VERSION)
+  };
+  translationMemoryCache.set(cacheKey, translation);
+  if (isSupabaseConfigured()) {
+      supabase!.from('ai_articles_cache')
+          .upsert({ article_id: cacheKey, data: translation }, { onConflict: 'article_id' })
+          .then(() => {});
   }
+  return translation;
+};
+
+/**
+ * Editor action: deletes an article's cached English and translations (server-side, behind
+ * the editor token) and forgets them locally, so the next enhanceArticle call regenerates.
+ */
+export const purgeArticleContent = async (id: string, editorToken: string): Promise<void> => {
+  const response = await fetch(`${AI_CACHE_API_URL}?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${editorToken}` }
+  });
+  if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Purge failed (${response.status})`);
+  }
+
+  articleMemoryCache.delete(id);
+  translationMemoryCache.keys()
+      .filter(key => key.startsWith(`${id}:`))
+      .forEach(key => translationMemoryCache.delete(key));
+};
 
-  // Strict Cleaning for TTS
-  const cleanText = text
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const TTS_VOICE = 'Fenrir';
+
+const FIRST_CHUNK_CHARS = 300; // Short, so the first clip is ready fast
+const MAX_CHUNK_CHARS = 1500;
+const MAX_PARALLEL_TTS = 3;
+
+// One sentence-aligned piece of a spoken article; `audio` resolves to base64 PCM (24kHz, mono)
+export interface SpeechChunk {
+  text: string;
+  audio: Promise<string>;
+}
+
+// Strict Cleaning for TTS
+const cleanSpeechText = (text: string): string => text
     .replace(/https?:\/\/\S+/g, '') // Remove URLs
     .replace(/[*#_`~>\[\]\(\)]/g, '') // Remove Markdown
     .replace(/\s+/g, ' ') // Clean spacing
     .replace(/"/g, '') // Remove quotes that might confuse some parsers
     .trim();
 
+// SHA-256 over everything that changes the audio, so different texts can never share a clip
+const audioCacheKey = async (speechText: string, language: string): Promise<string> => {
+  const input = [TTS_MODEL, TTS_VOICE, language, speechText].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Only digest keys are read; rows under the old prefix-and-length keys are removed by migration purge_legacy_audio_keys
+const loadCachedAudio = async (cacheKey: string): Promise<string | null> => {
+  const { data, error } = await supabase!
+      .from('ai_audio_cache')
+      .select('audio_data')
+      .eq('text_hash', cacheKey)
+      .single();
+
+  return data && !error ? data.audio_data : null;
+};
+
+// Runs at most `max` tasks at once, starting them in the order they were queued
+const createLimiter = (max: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  const next = () => {
+      if (active >= max || queue.length === 0) return;
+      active++;
+      queue.shift()!();
+  };
+  return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+          task().then(resolve, reject).finally(() => {
+              active--;
+              next();
+          });
+      });
+      next();
+  });
+};
+
+/**
+ * Splits the text into sentence-aligned chunks and starts TTS for them in parallel (first
+ * chunk first). Each chunk is cached on its own, so a replay or a partly heard article
+ * only generates what's missing. Throws if there is nothing to read.
+ */
+export const generateNewsAudio = (text: string, language: string = 'en'): SpeechChunk[] => {
+  const cleanText = cleanSpeechText(text);
   if (!cleanText) throw new Error("Audio generation failed: Empty text");
 
-  // Safety limit for TTS model (approx 4000 chars)
-  const speechText = cleanText.slice(0, 4000);
+  const chunks = chunkSpeechText(cleanText, FIRST_CHUNK_CHARS, MAX_CHUNK_CHARS);
+  const limit = createLimiter(MAX_PARALLEL_TTS);
+
+  return chunks.map(chunk => ({
+      text: chunk,
+      audio: limit(() => generateSpeechChunk(chunk, language))
+  }));
+};
+
+const generateSpeechChunk = async (speechText: string, language: string): Promise<string> => {
+  const cacheKey = await audioCacheKey(speechText, language);
+
+  const remembered = audioMemoryCache.get(cacheKey);
+  if (remembered) {
+    return remembered;
+  }
+
+  const stored = await getStoredAudio(cacheKey);
+  if (stored) {
+    audioMemoryCache.set(cacheKey, stored);
+    return stored;
+  }
+
+  if (isSupabaseConfigured()) {
+      try {
+          const cached = await loadCachedAudio(cacheKey);
+          if (cached) {
+              audioMemoryCache.set(cacheKey, cached);
+              storeAudio(cacheKey, cached);
+              return cached;
+          }
+      } catch (e) {}
+  }
+
   let base64Audio: string | null = null;
 
   try {
       const aiClient = getAI();
       
-      const safetySettings = [
-          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE }
-      ];
-
       const response = await aiClient.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
+        model: TTS_MODEL,
         contents: [{ parts: [{ text: speechText }] }],
         config: {
             responseModalities: [Modality.AUDIO], 
             speechConfig: {
                 voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Fenrir' } 
+                    prebuiltVoiceConfig: { voiceName: TTS_VOICE } 
                 }
             },
-            safetySettings: safetySettings
+            safetySettings: SAFETY_SETTINGS
         }
       });
       
@@ -264,12 +590,13 @@ export const generateNewsAudio = async (text: string): Promise<{ audioData: stri
 
   if (base64Audio) {
       audioMemoryCache.set(cacheKey, base64Audio);
+      storeAudio(cacheKey, base64Audio);
       if (isSupabaseConfigured()) {
           supabase!.from('ai_audio_cache')
               .upsert({ text_hash: cacheKey, audio_data: base64Audio }, { onConflict: 'text_hash' })
               .then(() => {});
       }
-      return { audioData: base64Audio };
+      return base64Audio;
   } else {
       throw new Error("TTS generation failed (No Audio Data).");
   }
@@ -0,0 +1,159 @@
+import { GroundingReport } from '../types';
+
+/**
+ * Grounding check for AI-written articles. Every named entity, number and quote in a
+ * generated sentence must be traceable to the source text; sentences carrying a claim
+ * the source doesn't support are dropped before the article is shown.
+ */
+
+const MIN_QUOTE_LENGTH = 12;
+const STEM_LENGTH = 5; // India/Indian, Pakistan/Pakistani
+
+// Capitalized words that open sentences or clauses without naming anything
+const NON_ENTITY_WORDS = new Set([
+    'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'its', 'he', 'she', 'they', 'we', 'i', 'you',
+    'his', 'her', 'their', 'our', 'in', 'on', 'at', 'for', 'from', 'with', 'by', 'as', 'after', 'before',
+    'while', 'meanwhile', 'however', 'but', 'and', 'or', 'if', 'when', 'according', 'officials', 'sources',
+    'experts', 'also', 'further', 'moreover', 'additionally', 'overall', 'despite', 'following', 'earlier',
+    'later', 'today', 'yesterday', 'tomorrow'
+]);
+
+const CONNECTORS = new Set(['of', 'the', 'and', 'for', 'de', 'al', 'bin', 'van', 'von']);
+
+const ABBREVIATIONS = /(?:\b[A-Z]|\bMr|\bMrs|\bMs|\bDr|\bSt|\bJr|\bSr|\bGen|\bLt|\bCol|\bSgt|\bRep|\bSen|\bGov|\bProf|\bNo|\bvs)\.$/;
+
+const NUMBER_WORDS: Record<string, string> = {
+    one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+    ten: '10', eleven: '11', twelve: '12', twenty: '20', hundred: '100', thousand: '1000'
+};
+
+interface SourceIndex {
+    normalized: string;
+    tokens: Set<string>;
+    stems: Set<string>;
+    numbers: Set<string>;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[’']s\b/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const stem = (word: string) => word.slice(0, STEM_LENGTH);
+
+const extractNumbers = (text: string): string[] =>
+    (text.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(n => n.replace(/,/g, '').replace(/\.0+$/, ''));
+
+const indexSource = (source: string): SourceIndex => {
+    const normalized = normalize(source);
+    const tokens = new Set(normalized.split(' ').filter(Boolean));
+    const numbers = new Set(extractNumbers(source));
+    tokens.forEach(token => {
+        if (NUMBER_WORDS[token]) numbers.add(NUMBER_WORDS[token]);
+    });
+    return { normalized, tokens, stems: new Set(Array.from(tokens).map(stem)), numbers };
+};
+
+export const splitSentences = (paragraph: string): string[] => {
+    const pieces = paragraph.split(/(?<=[.!?]["”’)]*)\s+(?=["“(]?[A-Z0-9])/);
+    const sentences: string[] = [];
+    pieces.forEach(piece => {
+        const last = sentences[sentences.length - 1];
+        if (last !== undefined && ABBREVIATIONS.test(last)) {
+            sentences[sentences.length - 1] = `${last} ${piece}`;
+        } else {
+            sentences.push(piece);
+        }
+    });
+    return sentences.map(s => s.trim()).filter(Boolean);
+};
+
+// Runs of capitalized words ("Prime Minister Narendra Modi", "Bank of England")
+const extractEntities = (sentence: string): string[] => {
+    const words = sentence.replace(/["“”()]/g, ' ').split(/\s+/).filter(Boolean);
+    const entities: string[] = [];
+    let current: string[] = [];
+
+    const flush = () => {
+        while (current.length > 0 && CONNECTORS.has(current[current.length - 1].toLowerCase())) current.pop();
+        if (current.length > 0) entities.push(current.join(' '));
+        current = [];
+    };
+
+    words.forEach((raw, index) => {
+        const word = raw.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+        const capitalized = /^\p{Lu}/u.test(word);
+        const isOpening = index === 0 && current.length === 0;
+
+        if (capitalized && !NON_ENTITY_WORDS.has(word.toLowerCase())) {
+            // A lone capital at the start of a sentence is just grammar; keep it only if a name follows
+            current.push(word);
+            if (isOpening && !/^\p{Lu}/u.test((words[1] || '').replace(/^[^\p{L}]+/u, ''))) current = [];
+        } else if (current.length > 0 && CONNECTORS.has(word.toLowerCase())) {
+            current.push(word);
+        } else {
+            flush();
+        }
+        if (/[,.;:!?]$/.test(raw)) flush();
+    });
+    flush();
+    return entities;
+};
+
+const extractQuotes = (sentence: string): string[] => {
+    const quotes: string[] = [];
+    const pattern = /["“]([^"”]+)["”]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sentence))) {
+        if (match[1].trim().length >= MIN_QUOTE_LENGTH) quotes.push(match[1].trim());
+    }
+    return quotes;
+};
+
+const isEntitySupported = (entity: string, source: SourceIndex): boolean => {
+    return normalize(entity).split(' ')
+        .filter(word => word.length > 2 && !CONNECTORS.has(word))
+        .every(word => source.tokens.has(word) || (word.length >= STEM_LENGTH && source.stems.has(stem(word))));
+};
+
+// Claims in a sentence that can't be traced to the source, e.g. ['number 47', 'entity "Reuters"']
+const findUnsupportedClaims = (sentence: string, source: SourceIndex): string[] => {
+    const claims: string[] = [];
+    extractNumbers(sentence).forEach(n => {
+        if (!source.numbers.has(n)) claims.push(`number ${n}`);
+    });
+    extractQuotes(sentence).forEach(q => {
+        if (!source.normalized.includes(normalize(q))) claims.push(`quote "${q}"`);
+    });
+    extractEntities(sentence).forEach(e => {
+        if (!isEntitySupported(e, source)) claims.push(`entity "${e}"`);
+    });
+    return claims;
+};
+
+/**
+ * Removes every sentence of `generated` with an unsupported claim. Falls back to the
+ * source itself if nothing survives, so the reader never gets an empty article.
+ */
+export const groundArticle = (generated: string, source: string): { text: string; report: GroundingReport } => {
+    const index = indexSource(source);
+    const unsupportedClaims: string[] = [];
+    let removedSentences = 0;
+
+    const paragraphs = generated.split(/\n\s*\n/).map(paragraph => {
+        return splitSentences(paragraph.replace(/\s*\n\s*/g, ' ')).filter(sentence => {
+            const claims = findUnsupportedClaims(sentence, index);
+            if (claims.length === 0) return true;
+            removedSentences++;
+            unsupportedClaims.push(...claims);
+            return false;
+        }).join(' ');
+    }).filter(Boolean);
+
+    const text = paragraphs.length > 0 ? paragraphs.join('\n\n') : source;
+    return {
+        text,
+        report: {
+            removedSentences,
+            unsupportedClaims: Array.from(new Set(unsupportedClaims)),
+            checkedAt: new Date().toISOString()
+        }
+    };
+};
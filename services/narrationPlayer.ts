@@ -0,0 +1,363 @@
+import { SpeechChunk } from './geminiService';
+import { splitSpeechSentences } from '../utils/speechChunks';
+import { base64ToBytes, encodeWav, pcmDuration } from '../utils/wav';
+
+/**
+ * Article narration players. Gemini PCM chunks and the device `speechSynthesis` voice sit
+ * behind the same controls (play/pause, seek, speed) and report the same state, so the
+ * article player UI does not care which one is speaking.
+ */
+
+export type NarrationEngine = 'gemini' | 'device';
+export type NarrationStatus = 'loading' | 'playing' | 'paused' | 'ended' | 'error';
+
+export interface NarrationState {
+    engine: NarrationEngine;
+    status: NarrationStatus;
+    position: number;   // seconds at 1x
+    duration: number;   // seconds at 1x
+    estimated: boolean; // duration is a guess until every chunk's audio has arrived
+    rate: number;
+    sentenceIndex: number; // sentence of the narrated text being read
+}
+
+export interface Narration {
+    play: () => void;
+    pause: () => void;
+    seek: (seconds: number) => void;
+    setRate: (rate: number) => void;
+    destroy: () => void;
+    getState: () => NarrationState;
+    subscribe: (listener: (state: NarrationState) => void) => () => void;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const DEFAULT_SECONDS_PER_CHAR = 0.065; // Gemini narration pace, used until real durations are known
+const DEVICE_CHARS_PER_SECOND = 14;
+const DEVICE_BASE_RATE = 0.9;           // System voices read news too fast at their default rate
+const DEVICE_TICK_MS = 250;
+
+const createStateStore = (initial: NarrationState) => {
+    let state = initial;
+    const listeners = new Set<(state: NarrationState) => void>();
+    return {
+        get: () => state,
+        set: (patch: Partial<NarrationState>) => {
+            state = { ...state, ...patch };
+            listeners.forEach(listener => listener(state));
+        },
+        subscribe: (listener: (state: NarrationState) => void) => {
+            listeners.add(listener);
+            listener(state);
+            return () => { listeners.delete(listener); };
+        },
+        clear: () => listeners.clear()
+    };
+};
+
+// Character offset where each sentence starts, given sentences joined by single spaces
+const sentenceStarts = (sentences: string[]): number[] => {
+    let offset = 0;
+    return sentences.map(sentence => {
+        const start = offset;
+        offset += sentence.length + 1;
+        return start;
+    });
+};
+
+const indexAt = (starts: number[], value: number): number => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= value) index++;
+    return index;
+};
+
+interface PcmClip {
+    text: string;
+    start: number; // character offset in the narrated text
+    audio?: HTMLAudioElement;
+    url?: string;
+    duration?: number;
+    failed?: boolean;
+}
+
+/**
+ * Plays Gemini chunks in order, each as a WAV in its own <audio> element so seeking and
+ * pitch-preserving speed changes come from the browser. Chunks still generating are waited
+ * for; reaching one that failed hands the rest of the text to `onFailure`.
+ */
+export const createPcmNarration = (
+    chunks: SpeechChunk[],
+    onFailure: (remainingText: string, sentenceOffset: number) => void
+): Narration => {
+    let offset = 0;
+    const clips: PcmClip[] = chunks.map(chunk => {
+        const clip = { text: chunk.text, start: offset };
+        offset += chunk.text.length + 1;
+        return clip;
+    });
+    const starts = sentenceStarts(splitSpeechSentences(clips.map(clip => clip.text).join(' ')));
+
+    let current = 0;   // clip being played, or waited for
+    let resumeAt = 0;  // where to start in the current clip before its audio exists
+    let wantsPlay = false;
+    let destroyed = false;
+
+    const secondsPerChar = () => {
+        const known = clips.filter(clip => clip.duration !== undefined);
+        const chars = known.reduce((sum, clip) => sum + clip.text.length, 0);
+        return chars ? known.reduce((sum, clip) => sum + clip.duration!, 0) / chars : DEFAULT_SECONDS_PER_CHAR;
+    };
+    const clipDuration = (clip: PcmClip) => clip.duration ?? clip.text.length * secondsPerChar();
+    const clipStartTime = (index: number) => clips.slice(0, index).reduce((sum, clip) => sum + clipDuration(clip), 0);
+
+    const snapshot = (): Partial<NarrationState> => {
+        const clip = clips[current];
+        const within = clip.audio ? clip.audio.currentTime : resumeAt;
+        const duration = clipStartTime(clips.length);
+        const charOffset = clip.start + Math.min(1, within / clipDuration(clip)) * clip.text.length;
+        return {
+            position: Math.min(clipStartTime(current) + within, duration),
+            duration,
+            estimated: clips.some(c => c.duration === undefined),
+            sentenceIndex: indexAt(starts, charOffset)
+        };
+    };
+
+    const store = createStateStore({
+        engine: 'gemini', status: 'paused', position: 0, duration: 0, estimated: true, rate: 1, sentenceIndex: 0
+    });
+    const emit = (patch: Partial<NarrationState> = {}) => {
+        if (!destroyed) store.set({ ...snapshot(), ...patch });
+    };
+    emit();
+
+    const fail = () => {
+        wantsPlay = false;
+        const clip = clips[current];
+        const remaining = clips.slice(current).map(c => c.text).join(' ');
+        onFailure(remaining, indexAt(starts, clip.start));
+    };
+
+    const startClip = () => {
+        if (destroyed || !wantsPlay) return;
+        const clip = clips[current];
+        if (clip.failed) return fail();
+        if (!clip.audio) return emit({ status: 'loading' });
+
+        clip.audio.playbackRate = store.get().rate;
+        clip.audio.play().catch(e => {
+            if (e?.name === 'AbortError') return; // Paused or seeked before playback began
+            console.warn("Narration playback failed", e);
+            wantsPlay = false;
+            emit({ status: 'paused' });
+        });
+        emit({ status: 'playing' });
+    };
+
+    chunks.forEach((chunk, index) => {
+        chunk.audio.then(base64 => {
+            if (destroyed) return;
+            const pcm = base64ToBytes(base64);
+            const clip = clips[index];
+            clip.duration = pcmDuration(pcm);
+            clip.url = URL.createObjectURL(encodeWav(pcm));
+
+            const audio = new Audio(clip.url);
+            audio.preload = 'auto';
+            if (index === current) audio.currentTime = resumeAt;
+            audio.ontimeupdate = () => {
+                if (index === current && wantsPlay) emit();
+            };
+            audio.onended = () => {
+                if (index !== current || !wantsPlay) return;
+                if (index + 1 < clips.length) {
+                    current = index + 1;
+                    resumeAt = 0;
+                    if (clips[current].audio) clips[current].audio!.currentTime = 0;
+                    startClip();
+                } else {
+                    wantsPlay = false;
+                    emit({ status: 'ended' });
+                }
+            };
+            clip.audio = audio;
+
+            if (index === current && wantsPlay) startClip();
+            else emit();
+        }, e => {
+            if (destroyed) return;
+            console.warn(`Narration chunk ${index + 1} of ${chunks.length} failed`, e);
+            clips[index].failed = true;
+            if (index === current && wantsPlay) fail();
+        });
+    });
+
+    const pause = () => {
+        wantsPlay = false;
+        clips[current].audio?.pause();
+        emit({ status: 'paused' });
+    };
+
+    const seek = (seconds: number) => {
+        const target = Math.max(0, Math.min(seconds, clipStartTime(clips.length)));
+        let index = 0;
+        while (index + 1 < clips.length && clipStartTime(index + 1) <= target) index++;
+
+        if (index !== current) clips[current].audio?.pause();
+        current = index;
+        resumeAt = target - clipStartTime(index);
+        const clip = clips[index];
+        if (clip.audio) clip.audio.currentTime = Math.min(resumeAt, clip.duration!);
+
+        if (wantsPlay) startClip();
+        else emit({ status: 'paused' });
+    };
+
+    return {
+        play: () => {
+            if (store.get().status === 'ended') seek(0);
+            wantsPlay = true;
+            startClip();
+        },
+        pause,
+        seek,
+        setRate: (rate) => {
+            clips.forEach(clip => { if (clip.audio) clip.audio.playbackRate = rate; });
+            emit({ rate });
+        },
+        destroy: () => {
+            wantsPlay = false;
+            destroyed = true;
+            clips.forEach(clip => {
+                clip.audio?.pause();
+                if (clip.url) URL.revokeObjectURL(clip.url);
+            });
+            store.clear();
+        },
+        getState: store.get,
+        subscribe: store.subscribe
+    };
+};
+
+const pickVoice = (lang: string): SpeechSynthesisVoice | undefined => {
+    const voices = window.speechSynthesis.getVoices();
+    // Exact language match first, then the broad language (e.g. 'hi-IN' -> 'hi')
+    return voices.find(v => v.lang === lang) || voices.find(v => v.lang.startsWith(lang.split('-')[0]));
+};
+
+/**
+ * Reads `text` with the system voice, one utterance per sentence so progress, seeking and
+ * speed changes work at sentence granularity. Times are estimated from text length.
+ * `sentenceOffset` numbers the sentences when this picks up part-way through a narration.
+ */
+export const createDeviceNarration = (text: string, lang: string, sentenceOffset: number = 0): Narration => {
+    // Device voices often read markdown punctuation aloud
+    const sentences = splitSpeechSentences(text.replace(/[*#_]/g, ''));
+    const durations = sentences.map(sentence => sentence.length / DEVICE_CHARS_PER_SECOND);
+    const starts = durations.map((_, i) => durations.slice(0, i).reduce((sum, d) => sum + d, 0));
+    const total = durations.reduce((sum, d) => sum + d, 0);
+
+    let current = 0;
+    let sentenceStartedAt = 0;
+    let wantsPlay = false;
+    let destroyed = false;
+    // Bumped on every (re)start so events from cancelled utterances are ignored
+    let run = 0;
+    let ticker: ReturnType<typeof setInterval> | undefined;
+
+    const store = createStateStore({
+        engine: 'device', status: 'paused', position: 0, duration: total, estimated: true, rate: 1, sentenceIndex: sentenceOffset
+    });
+
+    const emit = (patch: Partial<NarrationState> = {}) => {
+        if (destroyed) return;
+        const { rate, status } = { ...store.get(), ...patch };
+        const elapsed = status === 'playing' && sentenceStartedAt
+            ? Math.min(durations[current] || 0, (performance.now() - sentenceStartedAt) / 1000 * rate)
+            : 0;
+        store.set({ ...patch, position: status === 'ended' ? total : (starts[current] || 0) + elapsed, sentenceIndex: sentenceOffset + current });
+    };
+
+    const stopSpeaking = () => {
+        run++;
+        clearInterval(ticker);
+        ticker = undefined;
+        window.speechSynthesis.cancel();
+    };
+
+    const speakFrom = (index: number) => {
+        stopSpeaking();
+        const thisRun = run;
+        current = index;
+        sentenceStartedAt = 0;
+
+        const voice = pickVoice(lang);
+        for (let i = index; i < sentences.length; i++) {
+            const utterance = new SpeechSynthesisUtterance(sentences[i]);
+            if (voice) {
+                utterance.voice = voice;
+                utterance.lang = voice.lang;
+            } else {
+                utterance.lang = lang; // Let the system default voice try the language hint
+            }
+            utterance.rate = DEVICE_BASE_RATE * store.get().rate;
+
+            utterance.onstart = () => {
+                if (thisRun !== run) return;
+                current = i;
+                sentenceStartedAt = performance.now();
+                emit();
+            };
+            utterance.onend = () => {
+                if (thisRun !== run || i !== sentences.length - 1) return;
+                wantsPlay = false;
+                stopSpeaking();
+                emit({ status: 'ended' });
+            };
+            utterance.onerror = (e) => {
+                if (thisRun !== run || e.error === 'interrupted' || e.error === 'canceled') return;
+                console.error("Device TTS Error", e);
+                wantsPlay = false;
+                stopSpeaking();
+                emit({ status: 'error' });
+            };
+            window.speechSynthesis.speak(utterance);
+        }
+
+        ticker = setInterval(() => emit(), DEVICE_TICK_MS);
+        emit({ status: 'playing' });
+    };
+
+    return {
+        play: () => {
+            if (!sentences.length) return emit({ status: 'ended' });
+            wantsPlay = true;
+            // speechSynthesis.pause() is unreliable on mobile, so resuming re-reads the current sentence
+            speakFrom(store.get().status === 'ended' ? 0 : current);
+        },
+        pause: () => {
+            wantsPlay = false;
+            stopSpeaking();
+            emit({ status: 'paused' });
+        },
+        seek: (seconds) => {
+            const index = indexAt(starts, Math.max(0, seconds));
+            if (wantsPlay) return speakFrom(index);
+            current = index;
+            emit({ status: 'paused' });
+        },
+        setRate: (rate) => {
+            store.set({ rate });
+            if (wantsPlay) speakFrom(current);
+        },
+        destroy: () => {
+            wantsPlay = false;
+            stopSpeaking();
+            destroyed = true;
+            store.clear();
+        },
+        getState: store.get,
+        subscribe: store.subscribe
+    };
+};
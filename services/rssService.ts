@@ -1,19 +1,21 @@
-import { Category, Article } from '../types';
-import { RSS_FEEDS, TELEGRAM_CHANNEL_URL, ASSET_LOGO_URL } from '../constants';
+import { Category, Article, FeedHealth, ExtractedArticle, TelegramPostRow } from '../types';
+import { RSS_FEEDS, TELEGRAM_CHANNEL } from '../constants';
 import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { parseTelegramPostRows } from './feedParser';
+import { getEnv } from '../utils/env';
+import { toIsoDate } from '../utils/time';
 
 const CACHE_PREFIX = 'news_pulse_cache_';
 const CACHE_DURATION = 5 * 60 * 1000; // 5 Minutes for fast Breaking News
+const TELEGRAM_POSTS_LIMIT = 20;
+const TELEGRAM_ROWS_LIMIT = 60; // Albums take one row per item
+const FEEDS_API_URL = getEnv('FEEDS_API_URL') || '/api/feeds';
+const FEEDS_API_TIMEOUT = 20000; // Server fetches every feed of the category before answering
+const EXTRACT_API_URL = getEnv('EXTRACT_API_URL') || '/api/extract';
+const FEED_HEALTH_API_URL = getEnv('FEED_HEALTH_API_URL') || '/api/feed-health';
+const EXTRACT_API_TIMEOUT = 15000;
 
-const generateId = (str: string) => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash |= 0;
-  }
-  return 'rss_' + Math.abs(hash).toString(36);
-};
+const extractMemoryCache = new Map<string, ExtractedArticle | null>();
 
 export const fetchGalleryPosts = async (): Promise<Article[]> => {
     if (isSupabaseConfigured()) {
@@ -29,11 +31,12 @@ export const fetchGalleryPosts = async (): Promise<Article[]> => {
                     title: post.title || "Gallery Post",
                     source: 'Azad Gallery',
                     timestamp: new Date(post.created_at).toLocaleDateString(),
+                    publishedAt: toIsoDate(post.created_at),
                     description: post.description || "",
                     category: Category.GALLERY,
                     url: '#',
                     imageUrl: post.media_url,
-                    descriptionRomanUrdu: post.description
+                    descriptionTranslations: { 'ur-Latn': post.description }
                 }));
             }
         } catch (e) {
@@ -61,171 +64,75 @@ export const addGalleryPost = async (post: { title: string, description: string,
     return data;
 };
 
-// Helper to extract image from style string
-const extractBgImage = (style: string): string => {
-    const match = style.match(/url\(['"]?(.*?)['"]?\)/);
-    return match ? match[1] : '';
-};
-
-export const fetchNewsForCategory = async (category: Category): Promise<Article[]> => {
-    if (category === Category.AZAD_STUDIO) {
-        console.log(`[Azad Studio] Fetching Telegram from: ${TELEGRAM_CHANNEL_URL}`);
-        
-        // Multi-proxy Strategy for Robustness
-        const proxies = [
-            // AllOrigins with cache buster
-            { url: `https://api.allorigins.win/get?url=${encodeURIComponent(TELEGRAM_CHANNEL_URL + '?t=' + Date.now())}`, type: 'json' },
-            // CodeTabs
-            { url: `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(TELEGRAM_CHANNEL_URL)}`, type: 'text' },
-             // CORS Proxy IO
-            { url: `https://corsproxy.io/?${encodeURIComponent(TELEGRAM_CHANNEL_URL)}`, type: 'text' }
-        ];
-
-        for (const proxy of proxies) {
-            try {
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), 8000); // 8s timeout
-
-                const response = await fetch(proxy.url, { signal: controller.signal });
-                clearTimeout(timeoutId);
-
-                if (!response.ok) {
-                    console.warn(`Proxy ${proxy.url} failed with status ${response.status}`);
-                    continue;
-                }
-
-                let html = '';
-                if (proxy.type === 'json') {
-                    const data = await response.json();
-                    html = data.contents;
-                } else {
-                    html = await response.text();
-                }
-
-                if (!html || !html.includes('tgme_widget_message')) {
-                    continue;
-                }
-
-                const parser = new DOMParser();
-                const doc = parser.parseFromString(html, 'text/html');
-                const messages = Array.from(doc.querySelectorAll('.tgme_widget_message'));
-
-                if (messages.length > 0) {
-                     const articles: Article[] = messages.map((msg) => {
-                        const id = msg.getAttribute('data-post') || Math.random().toString(36).substr(2, 9);
-                        
-                        // Extract Text
-                        const textEl = msg.querySelector('.tgme_widget_message_text');
-                        const rawHtml = textEl?.innerHTML || '';
-                        let rawText = textEl?.textContent || '';
-                        
-                        // Extract Date
-                        const timeEl = msg.querySelector('.time');
-                        const dateTime = timeEl?.getAttribute('datetime');
-                        const timestamp = dateTime ? new Date(dateTime).toLocaleString() : 'Recent';
-                        
-                        // Extract Image
-                        const photoWrap = msg.querySelector('.tgme_widget_message_photo_wrap');
-                        let imageUrl = '';
-                        let videoUrl = '';
-                        let mediaType: 'image' | 'video' = 'image';
-
-                        if (photoWrap) {
-                            const style = photoWrap.getAttribute('style') || '';
-                            imageUrl = extractBgImage(style);
-                        }
-                        
-                        // Extract Video
-                        const videoWrap = msg.querySelector('.tgme_widget_message_video_player');
-                        if (videoWrap) {
-                            mediaType = 'video';
-                            const thumbStyle = videoWrap.querySelector('.tgme_widget_message_video_thumb')?.getAttribute('style') || '';
-                            if (!imageUrl) imageUrl = extractBgImage(thumbStyle);
-                            
-                            // Try to get actual video src
-                            const videoTag = videoWrap.querySelector('video');
-                            if (videoTag) {
-                                videoUrl = videoTag.getAttribute('src') || '';
-                            }
-                        }
-
-                        // Heuristic for Title
-                        let title = "Azad Studio Update";
-                        if (rawText) {
-                            const lines = rawText.split('\n').filter(l => l.trim().length > 0);
-                            if (lines.length > 0) {
-                                // Use first line as title, truncate if too long
-                                title = lines[0].length > 80 ? lines[0].substring(0, 80) + "..." : lines[0];
-                            }
-                        } else {
-                            if (mediaType === 'video') title = "New Video Upload";
-                            else if (imageUrl) title = "New Image Upload";
-                        }
-                        
-                        // If no text, use a generic description
-                        if (!rawText) rawText = "Check out this update from Azad Studio Official.";
-
-                        return {
-                            id: `tg_live_${id}`,
-                            title: title,
-                            source: 'Azad Studio Live',
-                            timestamp: timestamp,
-                            description: rawText,
-                            content: rawText,
-                            category: Category.AZAD_STUDIO,
-                            url: `https://t.me/${id.replace('/', '/')}`,
-                            imageUrl: imageUrl || ASSET_LOGO_URL,
-                            videoUrl: videoUrl,
-                            mediaType: mediaType,
-                            descriptionRomanUrdu: rawText 
-                        };
-                    }).reverse();
+/**
+ * Full text, byline and lead image from the article's own page (extracted and cached server-side).
+ * Resolves to null for items without a publisher page or when extraction fails.
+ */
+export const fetchArticleText = async (article: Article): Promise<ExtractedArticle | null> => {
+    if (!/^https?:\/\//.test(article.url) || article.category === Category.AZAD_STUDIO || article.category === Category.GALLERY) {
+        return null;
+    }
+    if (extractMemoryCache.has(article.id)) return extractMemoryCache.get(article.id)!;
 
-                    console.log(`[Azad Studio] Successfully fetched ${articles.length} posts via ${proxy.url}`);
-                    return articles; // Success! Return immediately
-                }
-            } catch (e) {
-                console.warn(`[Azad Studio] Error with proxy ${proxy.url}:`, e);
-            }
+    let extracted: ExtractedArticle | null = null;
+    try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), EXTRACT_API_TIMEOUT);
+
+        const response = await fetch(
+            `${EXTRACT_API_URL}?url=${encodeURIComponent(article.url)}`,
+            { signal: controller.signal }
+        );
+        clearTimeout(timeoutId);
+
+        if (response.ok) {
+            const data = await response.json() as ExtractedArticle;
+            if (data.text) extracted = data;
         }
+    } catch (e) {
+        console.warn(`Full-text extraction failed for ${article.url}`, e);
+    }
 
-        console.warn("[Azad Studio] All live fetch proxies failed. Trying Supabase fallback.");
+    extractMemoryCache.set(article.id, extracted);
+    return extracted;
+};
 
-        // Fallback to Supabase Archive if Live Fetch Fails
-        if (isSupabaseConfigured()) {
-            try {
-                const { data } = await supabase!
-                    .from('telegram_posts')
-                    .select('*')
-                    .order('created_at', { ascending: false })
-                    .limit(20);
-                
-                if (data && data.length > 0) {
-                    return data.map((post: any) => {
-                        const isVideo = post.media_type === 'video';
-                        return {
-                            id: `tg_db_${post.id}`,
-                            title: post.title || "Azad Studio Archive",
-                            source: 'Azad Studio (Archive)',
-                            timestamp: new Date(post.created_at).toLocaleString(),
-                            description: post.message,
-                            content: post.message,
-                            category: Category.AZAD_STUDIO,
-                            url: '#',
-                            // For DB items, we assume media_url is the video if type is video
-                            imageUrl: isVideo ? '' : post.media_url, 
-                            videoUrl: isVideo ? post.media_url : '',
-                            mediaType: post.media_type || 'image',
-                        };
-                    });
-                }
-            } catch (e) {
-                console.warn("[Azad Studio] Supabase Fallback Failed", e);
-            }
-        }
-        
+/**
+ * Health of every configured RSS feed, for the editors' Feed Status view. The server checks
+ * the editor token; resolves to null when it is rejected.
+ */
+export const fetchFeedHealth = async (editorToken: string): Promise<FeedHealth[] | null> => {
+    const response = await fetch(FEED_HEALTH_API_URL, { headers: { 'Authorization': `Bearer ${editorToken}` } });
+    if (response.status === 401) return null;
+    if (!response.ok) throw new Error(`Feed health request failed (${response.status})`);
+    return (await response.json()).feeds as FeedHealth[];
+};
+
+// Channel posts archived by the bot webhook, newest first
+const fetchTelegramPosts = async (): Promise<Article[]> => {
+    if (!isSupabaseConfigured()) return [];
+    try {
+        const { data, error } = await supabase!
+            .from('telegram_posts')
+            .select('*')
+            .not('hidden', 'is', true) // Posts an editor took down
+            .order('pinned', { ascending: false, nullsFirst: false })
+            .order('created_at', { ascending: false })
+            .limit(TELEGRAM_ROWS_LIMIT);
+
+        if (error) throw error;
+        return parseTelegramPostRows((data || []) as TelegramPostRow[], TELEGRAM_CHANNEL).slice(0, TELEGRAM_POSTS_LIMIT);
+    } catch (e) {
+        console.warn("[Azad Studio] Failed to load bot archive", e);
         return [];
     }
+};
+
+export const fetchNewsForCategory = async (category: Category): Promise<Article[]> => {
+    // Azad Studio is served only from the bot's archive; the channel page is never scraped
+    if (category === Category.AZAD_STUDIO) {
+        return fetchTelegramPosts();
+    }
 
     if (category === Category.GALLERY) {
         return fetchGalleryPosts();
@@ -239,7 +146,7 @@ export const fetchNewsForCategory = async (category: Category): Promise<Article[
         try {
             const { data, error } = await supabase!
                 .from('rss_feed_cache')
-                .select('*')
+                .select('articles, updated_at') // skip the per-feed validator state
                 .eq('category', category)
                 .single();
 
@@ -262,6 +169,8 @@ export const fetchNewsForCategory = async (category: Category): Promise<Article[
     const cacheKey = CACHE_PREFIX + category;
     const cachedData = localStorage.getItem(cacheKey);
     
+    let localEtag = '';
+
     if (cachedData) {
         try {
             const parsed = JSON.parse(cachedData);
@@ -269,137 +178,50 @@ export const fetchNewsForCategory = async (category: Category): Promise<Article[
                 return parsed.articles;
             }
             localStaleData = parsed.articles;
+            localEtag = parsed.etag || '';
         } catch (e) {
             console.error("Cache parse error", e);
         }
     }
 
-    // 3. Live Fetch
+    // 3. Server-side aggregation (fetches feeds and refreshes rss_feed_cache for everyone)
     const feedUrls = RSS_FEEDS[category];
     if (!feedUrls || feedUrls.length === 0) return [];
 
-    const fetchPromises = feedUrls.map(async (url) => {
-        const proxies = [
-            { url: `https://api.allorigins.win/get?url=${encodeURIComponent(url)}`, type: 'json' },
-            { url: `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`, type: 'text' },
-            { url: `https://corsproxy.io/?${encodeURIComponent(url)}`, type: 'text' },
-            { url: `https://thingproxy.freeboard.io/fetch/${url}`, type: 'text' }
-        ];
-
-        for (const proxy of proxies) {
-            try {
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), 6000); // Shorter timeout (6s)
-
-                const response = await fetch(proxy.url, { signal: controller.signal });
-                clearTimeout(timeoutId);
-
-                if (!response.ok) throw new Error(`Proxy status ${response.status}`);
-
-                let rssContent = "";
-                if (proxy.type === 'json') {
-                    const data = await response.json();
-                    rssContent = data.contents;
-                } else {
-                    rssContent = await response.text();
-                }
-
-                if (!rssContent) continue;
-
-                const parser = new DOMParser();
-                const xmlDoc = parser.parseFromString(rssContent, "text/xml");
-                if (xmlDoc.querySelector("parsererror")) continue;
-
-                const items = xmlDoc.querySelectorAll("item");
-                if (items.length === 0) continue;
-
-                const sourceName = new URL(url).hostname.replace('www.', '').replace('feeds.', '').split('.')[0].toUpperCase();
-
-                return Array.from(items).map(item => {
-                    const title = item.querySelector("title")?.textContent || "No Title";
-                    const link = item.querySelector("link")?.textContent || "";
-                    const pubDate = item.querySelector("pubDate")?.textContent || "";
-                    
-                    // Fetch full content if available
-                    const contentEncoded = item.getElementsByTagName("content:encoded")[0]?.textContent 
-                        || item.querySelector("encoded")?.textContent
-                        || "";
-                    
-                    const rawDescription = item.querySelector("description")?.textContent || "";
-                    
-                    const fullTextSource = contentEncoded || rawDescription;
+    try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), FEEDS_API_TIMEOUT);
 
-                    // Clean Full Text
-                    const tempDiv = document.createElement("div");
-                    tempDiv.innerHTML = fullTextSource;
-                    const fullCleanText = tempDiv.textContent?.trim() || "";
-                    
-                    // Create Short Summary for Card
-                    const cardDescription = fullCleanText.length > 200 
-                        ? fullCleanText.substring(0, 200) + "..." 
-                        : fullCleanText;
+        // Conditional GET: an unchanged category answers 304 with no body
+        const headers: Record<string, string> = {};
+        if (localEtag && localStaleData.length > 0) headers['If-None-Match'] = localEtag;
 
-                    let imageUrl = '';
-                    const mediaContent = item.getElementsByTagName("media:content")[0];
-                    if (mediaContent) imageUrl = mediaContent.getAttribute("url") || '';
-                    if (!imageUrl) {
-                        const imgMatch = fullTextSource.match(/<img[^>]+src="([^">]+)"/);
-                        if (imgMatch) imageUrl = imgMatch[1];
-                    }
+        const response = await fetch(`${FEEDS_API_URL}?category=${encodeURIComponent(category)}`, { signal: controller.signal, headers });
+        clearTimeout(timeoutId);
 
-                    return {
-                        id: generateId(link),
-                        title: title,
-                        source: sourceName,
-                        timestamp: pubDate ? new Date(pubDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'Recent',
-                        description: cardDescription, // Truncated for UI Card
-                        content: fullCleanText, // Full text for Modal/AI
-                        category: category,
-                        url: link,
-                        imageUrl: imageUrl 
-                    };
-                });
-            } catch (e) {
-               // Next proxy
-            }
+        if (response.status === 304) {
+            localStorage.setItem(cacheKey, JSON.stringify({
+                timestamp: Date.now(),
+                etag: localEtag,
+                articles: localStaleData
+            }));
+            return localStaleData;
         }
-        return [];
-    });
 
-    try {
-        const results = await Promise.all(fetchPromises);
-        const allArticles = results.flat();
+        if (!response.ok) throw new Error(`Feeds API status ${response.status}`);
 
-        const seenTitles = new Set();
-        const uniqueArticles = allArticles.filter(article => {
-            const normalizedTitle = article.title.toLowerCase().replace(/[^a-z0-9]/g, '');
-            if (seenTitles.has(normalizedTitle)) return false;
-            seenTitles.add(normalizedTitle);
-            return true;
-        });
+        const { articles } = await response.json() as { articles: Article[] };
 
-        if (uniqueArticles.length > 0) {
+        if (articles && articles.length > 0) {
             localStorage.setItem(cacheKey, JSON.stringify({
                 timestamp: Date.now(),
-                articles: uniqueArticles
+                etag: response.headers.get('ETag') || '',
+                articles: articles
             }));
-
-            if (isSupabaseConfigured()) {
-                supabase!.from('rss_feed_cache')
-                    .upsert({ 
-                        category: category, 
-                        articles: uniqueArticles,
-                        updated_at: new Date().toISOString()
-                    }, { onConflict: 'category' })
-                    .then(({ error }) => {
-                        if (error) console.error(`[Supabase RSS] Failed update`, error);
-                    });
-            }
-
-            return uniqueArticles;
+            return articles;
         }
     } catch (err) {
-        console.warn("RSS Network fetch failed", err);
+        console.warn("Feeds API fetch failed", err);
     }
 
     // 4. Fallback (Stale)
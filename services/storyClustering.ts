@@ -0,0 +1,176 @@
+import { Article, RelatedSource } from '../types';
+
+/**
+ * Near-duplicate story clustering. Each article is reduced to character shingles of its
+ * title and lead, summarised as a MinHash signature, and articles whose estimated
+ * Jaccard similarity passes the threshold are merged into one story.
+ */
+
+const SHINGLE_SIZE = 4;
+const SIGNATURE_SIZE = 64;
+const LEAD_LENGTH = 200;
+const CLUSTER_THRESHOLD = 0.5;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'as',
+    'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have', 'had', 'it', 'its', 'this', 'that', 'after', 'over'
+]);
+
+// Headline words that flip a story's outcome. Titles on opposite sides of a pair are different
+// stories however many other words they share ("India beat Australia" / "India lose to Australia").
+const OUTCOME_OPPOSITES: [Set<string>, Set<string>][] = [
+    [new Set(['beat', 'beats', 'win', 'wins', 'won', 'defeat', 'defeats', 'defeated', 'thrash', 'thrashes']), new Set(['lose', 'loses', 'lost', 'losing'])],
+    [new Set(['rise', 'rises', 'rose', 'gain', 'gains', 'surge', 'surges', 'jump', 'jumps']), new Set(['fall', 'falls', 'fell', 'drop', 'drops', 'slump', 'slumps', 'dip', 'dips'])],
+    [new Set(['approve', 'approves', 'approved', 'clears', 'cleared', 'nod']), new Set(['reject', 'rejects', 'rejected', 'denies', 'denied'])],
+    [new Set(['arrested', 'detained']), new Set(['released', 'freed', 'acquitted'])]
+];
+
+// Deterministic (a, b) pairs for the hash family, so signatures are comparable across runs
+const HASH_SEEDS: [number, number][] = (() => {
+    let state = 0x9e3779b9;
+    const next = () => {
+        state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+        return state;
+    };
+    return Array.from({ length: SIGNATURE_SIZE }, () => [next() | 1, next()] as [number, number]);
+})();
+
+const fnv1a = (str: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const normalize = (text: string): string => {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(word => word && !STOPWORDS.has(word))
+        .join(' ');
+};
+
+const shingles = (text: string): Set<string> => {
+    const normalized = normalize(text);
+    const result = new Set<string>();
+    if (normalized.length <= SHINGLE_SIZE) {
+        if (normalized) result.add(normalized);
+        return result;
+    }
+    for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+        result.add(normalized.slice(i, i + SHINGLE_SIZE));
+    }
+    return result;
+};
+
+const minHash = (set: Set<string>): Uint32Array => {
+    const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+    set.forEach(shingle => {
+        const base = fnv1a(shingle);
+        for (let i = 0; i < SIGNATURE_SIZE; i++) {
+            const [a, b] = HASH_SEEDS[i];
+            let h = (Math.imul(a, base) + b) >>> 0;
+            h ^= h >>> 15;
+            h = Math.imul(h, 0x2c1b3c6d) >>> 0;
+            if (h < signature[i]) signature[i] = h;
+        }
+    });
+    return signature;
+};
+
+const similarity = (a: Uint32Array, b: Uint32Array): number => {
+    let same = 0;
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        if (a[i] === b[i]) same++;
+    }
+    return same / SIGNATURE_SIZE;
+};
+
+// Which side of an opposite pair a title's words are on: 1, -1, or 0 for neither or both
+const outcomeSide = (words: Set<string>, [one, other]: [Set<string>, Set<string>]): number => {
+    const hasOne = Array.from(one).some(word => words.has(word));
+    const hasOther = Array.from(other).some(word => words.has(word));
+    return hasOne === hasOther ? 0 : hasOne ? 1 : -1;
+};
+
+const contradicts = (a: Set<string>, b: Set<string>): boolean => {
+    return OUTCOME_OPPOSITES.some(pair => outcomeSide(a, pair) * outcomeSide(b, pair) === -1);
+};
+
+const lead = (article: Article) => (article.content || article.description || '').slice(0, LEAD_LENGTH);
+
+// Prefer the version with an image, then the one with the most text to work from
+const pickRepresentative = (members: Article[]): Article => {
+    return members.reduce((best, candidate) => {
+        if (!!candidate.imageUrl !== !!best.imageUrl) return candidate.imageUrl ? candidate : best;
+        return lead(candidate).length + (candidate.content || '').length > lead(best).length + (best.content || '').length
+            ? candidate
+            : best;
+    });
+};
+
+/**
+ * Groups near-duplicate articles into stories. Order follows the first appearance of each story.
+ * The returned article is the cluster representative; the other members are listed in
+ * `relatedSources`, and `memberIds` keeps every member's id (the representative's first) so
+ * a folded article can still be found by its own id.
+ */
+export const clusterArticles = (articles: Article[]): Article[] => {
+    const titleSignatures = articles.map(a => minHash(shingles(a.title)));
+    const fullSignatures = articles.map(a => minHash(shingles(`${a.title} ${lead(a)}`)));
+    const titleWords = articles.map(a => new Set(normalize(a.title).split(' ')));
+
+    // Union-find over article indexes
+    const parent = articles.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < articles.length; i++) {
+        for (let j = i + 1; j < articles.length; j++) {
+            const score = Math.max(
+                similarity(titleSignatures[i], titleSignatures[j]),
+                similarity(fullSignatures[i], fullSignatures[j])
+            );
+            if (score >= CLUSTER_THRESHOLD && !contradicts(titleWords[i], titleWords[j])) {
+                const rootI = find(i);
+                const rootJ = find(j);
+                if (rootI !== rootJ) parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+            }
+        }
+    }
+
+    const clusters = new Map<number, Article[]>();
+    articles.forEach((article, i) => {
+        const root = find(i);
+        if (!clusters.has(root)) clusters.set(root, []);
+        clusters.get(root)!.push(article);
+    });
+
+    return Array.from(clusters.values()).map(members => {
+        const representative = pickRepresentative(members);
+        if (members.length === 1) return representative;
+
+        const others = members.filter(m => m !== representative);
+        const relatedSources: RelatedSource[] = others.map(m => ({ source: m.source, title: m.title, url: m.url }));
+
+        return {
+            ...representative,
+            clusterId: representative.id,
+            memberIds: [representative.id, ...others.map(m => m.id)],
+            relatedSources
+        };
+    });
+};
+
+// Distinct outlets covering a story, the representative's own source included
+export const countSources = (article: Article): number => {
+    return new Set([article.source, ...(article.relatedSources || []).map(r => r.source)]).size;
+};
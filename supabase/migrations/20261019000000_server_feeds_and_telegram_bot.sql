@@ -0,0 +1,110 @@
+-- Server-side feed refresh (/api/feeds, /api/feed-health), article extraction (/api/extract)
+-- and the Telegram channel bot (/api/bot, /api/telegram-posts).
+-- Every statement is idempotent, so the file can be re-run on a database that has part of it.
+--
+-- The API routes use the service-role key, which bypasses RLS. The browser uses the anon key
+-- and only ever reads the tables that have a policy below.
+
+/* ----------  RSS cache: per-feed validators next to the articles  ---------- */
+create table if not exists public.rss_feed_cache (
+    category text primary key,
+    articles jsonb not null default '[]'::jsonb,
+    updated_at timestamptz not null default now()
+);
+-- ETag / Last-Modified and the last good articles of each feed, keyed by feed URL
+alter table public.rss_feed_cache add column if not exists feeds jsonb not null default '{}'::jsonb;
+
+alter table public.rss_feed_cache enable row level security;
+drop policy if exists "rss_feed_cache is public" on public.rss_feed_cache;
+create policy "rss_feed_cache is public" on public.rss_feed_cache for select using (true);
+
+/* ----------  Feed health: editors only, read through /api/feed-health  ---------- */
+create table if not exists public.feed_health (
+    feed_url text primary key,
+    category text not null,
+    last_success_at timestamptz,
+    last_failure_at timestamptz,
+    consecutive_failures integer not null default 0,
+    avg_latency_ms integer,
+    last_error text,
+    retry_at timestamptz -- Set while the feed is quarantined
+);
+alter table public.feed_health enable row level security;
+
+/* ----------  Extracted article text, keyed by canonical URL  ---------- */
+create table if not exists public.article_extracts (
+    url text primary key,
+    data jsonb not null,
+    created_at timestamptz not null default now()
+);
+alter table public.article_extracts enable row level security;
+
+/* ----------  Channel posts archived by the bot  ---------- */
+create table if not exists public.telegram_posts (
+    id bigserial primary key,
+    message text not null default '',
+    media_url text,
+    media_type text,
+    created_at timestamptz not null default now()
+);
+alter table public.telegram_posts
+    add column if not exists chat_id bigint,
+    add column if not exists message_id bigint,
+    add column if not exists channel text,
+    add column if not exists title text,
+    add column if not exists media_file_id text,
+    add column if not exists media_group_id text,
+    add column if not exists attachments jsonb not null default '[]'::jsonb,
+    add column if not exists views integer,
+    add column if not exists posted_at timestamptz,
+    add column if not exists edited_at timestamptz,
+    add column if not exists hidden boolean not null default false,
+    add column if not exists pinned boolean not null default false;
+
+-- The bot upserts on (chat_id, message_id); rows from before the bot have neither and never collide
+create unique index if not exists telegram_posts_chat_message_key on public.telegram_posts (chat_id, message_id);
+create index if not exists telegram_posts_media_group_idx on public.telegram_posts (chat_id, media_group_id) where media_group_id is not null;
+create index if not exists telegram_posts_listing_idx on public.telegram_posts (pinned desc, created_at desc) where not hidden;
+
+alter table public.telegram_posts enable row level security;
+drop policy if exists "telegram_posts is public" on public.telegram_posts;
+drop policy if exists "Visible telegram_posts are public" on public.telegram_posts;
+create policy "Visible telegram_posts are public" on public.telegram_posts for select using (not hidden);
+
+-- Earlier versions of edited posts
+create table if not exists public.telegram_post_revisions (
+    id bigserial primary key,
+    chat_id bigint not null,
+    message_id bigint not null,
+    title text,
+    message text not null default '',
+    media_url text,
+    media_type text,
+    attachments jsonb,
+    published_at timestamptz,
+    replaced_at timestamptz,
+    created_at timestamptz not null default now()
+);
+create index if not exists telegram_post_revisions_post_idx on public.telegram_post_revisions (chat_id, message_id);
+alter table public.telegram_post_revisions enable row level security;
+
+-- Webhook updates already handled, so redeliveries are skipped
+create table if not exists public.telegram_updates (
+    update_id bigint primary key,
+    processed_at timestamptz not null default now()
+);
+alter table public.telegram_updates enable row level security;
+
+-- Updates that failed, kept until a redelivery succeeds
+create table if not exists public.telegram_dead_letters (
+    update_id bigint primary key,
+    payload jsonb not null,
+    error text not null,
+    failed_at timestamptz not null default now()
+);
+alter table public.telegram_dead_letters enable row level security;
+
+/* ----------  Media copied out of Telegram (MEDIA_BUCKET)  ---------- */
+insert into storage.buckets (id, name, public)
+values ('telegram-media', 'telegram-media', true)
+on conflict (id) do nothing;
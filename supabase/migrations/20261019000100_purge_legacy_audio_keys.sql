@@ -0,0 +1,5 @@
+-- ai_audio_cache is keyed by the SHA-256 hex digest of the model, voice, language and text.
+-- Rows under the old prefix-and-length keys are never read again, and one key could stand for
+-- several texts, so their audio may not even match. Nothing else would ever remove them.
+delete from public.ai_audio_cache
+where text_hash !~ '^[0-9a-f]{64}$';
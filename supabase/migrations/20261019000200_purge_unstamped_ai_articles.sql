@@ -0,0 +1,5 @@
+-- ai_articles_cache rows without cacheInfo predate prompt versioning, and with it the SHA-256
+-- article IDs. The client treats them as outdated and never serves them, so they are only
+-- dead storage; the articles they belonged to are enhanced again when next opened.
+delete from public.ai_articles_cache
+where data->'cacheInfo' is null;
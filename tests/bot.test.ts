@@ -0,0 +1,210 @@
+import { readFileSync } from 'fs';
+import { Telegram, TelegramError } from 'telegraf';
+import type { Message, Update } from 'telegraf/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseTelegramPostRows } from '../services/feedParser';
+
+// In-memory stand-in for the few Supabase queries the webhook makes
+const tables: Record<string, any[]> = {};
+
+vi.mock('../services/api/_supabase', () => {
+    const from = (name: string) => {
+        const filters: [string, unknown][] = [];
+        const matches = (row: any) => filters.every(([column, value]) => row[column] === value);
+        const query: any = {
+            select: () => query,
+            eq: (column: string, value: unknown) => { filters.push([column, value]); return query; },
+            maybeSingle: async () => ({ data: tables[name].find(matches) || null, error: null }),
+            insert: async (row: any) => { tables[name].push(row); return { error: null }; },
+            upsert: async (row: any, { onConflict }: { onConflict: string }) => {
+                const keys = onConflict.split(',');
+                tables[name] = tables[name].filter(existing => !keys.every(key => existing[key] === row[key]));
+                tables[name].push(row);
+                return { error: null };
+            },
+            delete: () => ({
+                eq: async (column: string, value: unknown) => {
+                    tables[name] = tables[name].filter(row => row[column] !== value);
+                    return { error: null };
+                }
+            })
+        };
+        return query;
+    };
+    return { supabaseAdmin: { from } };
+});
+
+vi.mock('../services/api/_blobStore', () => ({
+    mediaStore: { put: vi.fn(async (key: string) => `https://media.example.com/${key}`) }
+}));
+
+vi.stubEnv('BOT_TOKEN', '123456:test-token');
+vi.stubEnv('BOT_WEBHOOK_SECRET', 'webhook-secret');
+
+const { default: handler, toTelegramPostRow } = await import('../services/api/bot');
+
+const updates: Record<string, Update> = JSON.parse(readFileSync(new URL('./fixtures/telegram-updates.json', import.meta.url), 'utf8'));
+const postOf = (update: Update) => ('channel_post' in update ? update.channel_post : (update as any).edited_channel_post) as Message;
+
+const deliver = async (update: unknown, secret = 'webhook-secret') => {
+    const res: any = { headers: {} };
+    res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+    await handler({ method: 'POST', headers: { 'x-telegram-bot-api-secret-token': secret }, body: update }, res);
+    return res;
+};
+
+beforeEach(() => {
+    ['telegram_posts', 'telegram_post_revisions', 'telegram_updates', 'telegram_dead_letters'].forEach(name => { tables[name] = []; });
+    vi.spyOn(Telegram.prototype, 'getMe').mockResolvedValue({ id: 123456, is_bot: true, first_name: 'Azad Studio', username: 'azadstudio_bot' } as any);
+    vi.spyOn(Telegram.prototype, 'getFileLink').mockImplementation(async (fileId: any) => new URL(`https://api.telegram.org/file/bot123456:test-token/photos/${fileId}.jpg`));
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([0xff, 0xd8, 0xff]), { status: 200, headers: { 'content-type': 'image/jpeg' } })));
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe('toTelegramPostRow', () => {
+    it('maps a recorded text post', () => {
+        expect(toTelegramPostRow(postOf(updates.text), null)).toEqual({
+            chat_id: -1001873021934,
+            message_id: 412,
+            channel: 'azadstudioofficial',
+            title: 'Aaj shaam 7 baje live',
+            message: 'Aaj shaam 7 baje live\nCharminar se seedha prasaran, zaroor dekhein.',
+            media_url: null,
+            media_type: null,
+            media_file_id: null,
+            media_group_id: null,
+            attachments: [],
+            views: null,
+            posted_at: '2025-10-19T08:00:00.000Z',
+            edited_at: null
+        });
+    });
+
+    it('keeps the largest photo size and the album id', () => {
+        const row = toTelegramPostRow(postOf(updates.albumFirst), { kind: 'image', url: 'https://media.example.com/a.jpg' });
+
+        expect(row).toMatchObject({
+            title: 'Eid Milan ki jhalkiyan',
+            media_type: 'photo',
+            media_file_id: 'AgACAgUAAx0CbJ8-large',
+            media_group_id: '13795410862219871',
+            media_url: 'https://media.example.com/a.jpg'
+        });
+    });
+
+    it('names an untitled document after its caption', () => {
+        expect(toTelegramPostRow(postOf(updates.document), null)).toMatchObject({
+            title: 'Ward list for the GHMC polls',
+            media_type: 'document',
+            media_file_id: 'BQACAgUAAx0CbJ9-doc'
+        });
+    });
+});
+
+describe('POST /api/bot', () => {
+    it('rejects a wrong secret and a body that is not an update', async () => {
+        expect((await deliver(updates.text, 'guess')).statusCode).toBe(401);
+        expect((await deliver({ message: 'hi' })).statusCode).toBe(400);
+        expect(tables.telegram_posts).toEqual([]);
+    });
+
+    it('archives an album as rows the client shows as one post', async () => {
+        expect((await deliver(updates.albumFirst)).statusCode).toBe(200);
+        expect((await deliver(updates.albumSecond)).statusCode).toBe(200);
+
+        expect(tables.telegram_posts).toHaveLength(2);
+        expect(tables.telegram_posts[0].attachments[0]).toMatchObject({
+            kind: 'image',
+            width: 1280,
+            url: 'https://media.example.com/telegram/-1001873021934/AQADq7sxG-large.jpg',
+            thumbnailUrl: 'https://media.example.com/telegram/-1001873021934/AQADq7sxG-medium.jpg'
+        });
+
+        const articles = parseTelegramPostRows(tables.telegram_posts, 'azadstudioofficial');
+        expect(articles).toHaveLength(1);
+        expect(articles[0]).toMatchObject({ title: 'Eid Milan ki jhalkiyan', url: 'https://t.me/azadstudioofficial/413' });
+        expect(articles[0].attachments).toHaveLength(2);
+    });
+
+    it('keeps the replaced version of an edited post once, however its date is formatted', async () => {
+        await deliver(updates.text);
+        await deliver(updates.edited);
+
+        expect(tables.telegram_posts[0]).toMatchObject({ title: 'Aaj shaam 8 baje live', edited_at: '2025-10-19T08:30:00.000Z' });
+        expect(tables.telegram_post_revisions).toEqual([expect.objectContaining({
+            message_id: 412,
+            title: 'Aaj shaam 7 baje live',
+            published_at: '2025-10-19T08:00:00.000Z',
+            replaced_at: '2025-10-19T08:30:00.000Z'
+        })]);
+
+        // Postgres reads the timestamp back as +00:00; the same edit delivered again is not a new revision
+        tables.telegram_posts[0].edited_at = '2025-10-19T08:30:00+00:00';
+        await deliver({ ...updates.edited, update_id: 738204521 });
+        expect(tables.telegram_post_revisions).toHaveLength(1);
+    });
+
+    it('skips an update it already handled', async () => {
+        await deliver(updates.text);
+        const res = await deliver(updates.text);
+
+        expect(res.body).toEqual({ ok: true, duplicate: true });
+        expect(tables.telegram_updates).toHaveLength(1);
+    });
+
+    it('dead-letters a new post whose media could not be copied', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 502 })));
+        const res = await deliver(updates.document);
+
+        expect(res.statusCode).toBe(500);
+        expect(tables.telegram_posts).toEqual([]);
+        expect(tables.telegram_dead_letters).toEqual([expect.objectContaining({ update_id: 738204531 })]);
+        expect(tables.telegram_updates).toEqual([]);
+    });
+
+    it('archives a post whose video is over the 20MB download limit, linking to it on Telegram', async () => {
+        const res = await deliver(updates.largeVideo);
+
+        expect(res.statusCode).toBe(200);
+        expect(Telegram.prototype.getFileLink).not.toHaveBeenCalled();
+        expect(tables.telegram_dead_letters).toEqual([]);
+        expect(tables.telegram_posts[0]).toMatchObject({
+            title: 'Jalsa ki poori recording',
+            media_url: null,
+            media_type: 'video',
+            media_file_id: 'BAACAgUAAx0CbJ9-video',
+            attachments: [{ kind: 'document', url: 'https://t.me/azadstudioofficial/425', mimeType: 'video/mp4', fileName: 'jalsa-full.mp4' }]
+        });
+    });
+
+    it('archives the text when getFile refuses the file, but retries when Telegram is only busy', async () => {
+        vi.mocked(Telegram.prototype.getFileLink).mockRejectedValue(new TelegramError({ error_code: 429, description: 'Too Many Requests: retry after 5' }));
+        expect((await deliver(updates.document)).statusCode).toBe(500);
+
+        vi.mocked(Telegram.prototype.getFileLink).mockRejectedValue(new TelegramError({ error_code: 400, description: 'Bad Request: invalid file_id' }));
+        expect((await deliver(updates.document)).statusCode).toBe(200);
+        expect(tables.telegram_posts[0]).toMatchObject({ media_url: null, attachments: [{ url: 'https://t.me/azadstudioofficial/420' }] });
+        expect(tables.telegram_dead_letters).toEqual([]);
+    });
+
+    it('keeps the archived media when an edit cannot copy it again', async () => {
+        await deliver(updates.albumFirst);
+        const archived = tables.telegram_posts[0];
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 502 })));
+        const edit = { update_id: 738204530, edited_channel_post: { ...postOf(updates.albumFirst), edit_date: 1760868000, caption: 'Eid Milan 2025' } };
+        expect((await deliver(edit)).statusCode).toBe(200);
+
+        expect(tables.telegram_posts[0]).toMatchObject({
+            title: 'Eid Milan 2025',
+            media_url: archived.media_url,
+            attachments: archived.attachments
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('dns/promises', () => ({
+    lookup: vi.fn(async (host: string) => {
+        if (/^[\d.]+$|:/.test(host)) return [{ address: host, family: host.includes(':') ? 6 : 4 }]; // IP literals resolve to themselves
+        const addresses: Record<string, string> = {
+            'news.example.com': '93.184.216.34',
+            'rebound.example.com': '10.0.0.5',
+            'mapped.example.com': '::ffff:127.0.0.1'
+        };
+        if (!addresses[host]) throw new Error(`ENOTFOUND ${host}`);
+        return [{ address: addresses[host], family: addresses[host].includes(':') ? 6 : 4 }];
+    })
+}));
+
+const { default: handler } = await import('../services/api/extract');
+
+const ARTICLE_HTML = '<html><head><title>Story</title></head><body><article><h1>Story</h1>' +
+    '<p>' + 'Reporting from the city council meeting on Tuesday. '.repeat(12) + '</p></article></body></html>';
+
+const call = async (query: Record<string, string>) => {
+    const res: any = { headers: {} };
+    res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+    await handler({ method: 'GET', query, headers: {} }, res);
+    return res;
+};
+
+const page = (status: number, headers: Record<string, string>, body = '') => new Response(body, { status, headers });
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('GET /api/extract', () => {
+    it('rejects non-http and localhost URLs without fetching', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        expect((await call({ url: 'file:///etc/passwd' })).statusCode).toBe(400);
+        expect((await call({ url: 'http://localhost:3000/admin' })).statusCode).toBe(400);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('blocks hosts that resolve to private or loopback addresses', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        for (const url of ['http://rebound.example.com/', 'http://mapped.example.com/', 'http://127.0.0.1/', 'http://[::1]/']) {
+            const res = await call({ url });
+            expect(res.statusCode).toBe(502);
+            expect(res.body.error).toMatch(/not a public web address/);
+        }
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('re-checks every redirect hop', async () => {
+        const fetchMock = vi.fn(async () => page(302, { Location: 'http://rebound.example.com/internal' }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const res = await call({ url: 'https://news.example.com/story' });
+
+        expect(res.statusCode).toBe(502);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0]).toMatchObject(['https://news.example.com/story', { redirect: 'manual' }]);
+    });
+
+    it('follows public redirects and extracts the final page', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(page(301, { Location: '/story-amp' }))
+            .mockResolvedValueOnce(page(200, { 'Content-Type': 'text/html; charset=utf-8' }, ARTICLE_HTML));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const res = await call({ url: 'https://news.example.com/story' });
+
+        expect(res.statusCode).toBe(200);
+        expect(fetchMock.mock.calls[1][0]).toBe('https://news.example.com/story-amp');
+        expect(res.body.text).toContain('city council meeting');
+    });
+});
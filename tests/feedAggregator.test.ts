@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { aggregateCategory } from '../services/feedAggregator';
+import { Category } from '../types';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+// Local stand-in for the publishers: serves the saved feeds with ETags and honours If-None-Match
+const FEEDS: Record<string, { body: string; etag: string }> = {
+    '/hindu.rss': { body: fixture('the-hindu.xml'), etag: '"hindu-1"' },
+    '/bbc.rss': { body: fixture('bbc.xml'), etag: '"bbc-1"' },
+    '/portal.rss': { body: '<!DOCTYPE html><html><body>Please log in to the Wi-Fi</body></html>', etag: '"portal"' },
+    '/empty.rss': { body: '<?xml version="1.0"?><rss version="2.0"><channel><title>Empty</title></channel></rss>', etag: '"empty"' }
+};
+
+let server: Server;
+let baseUrl = '';
+const requests: { path: string; ifNoneMatch?: string }[] = [];
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        requests.push({ path: req.url || '', ifNoneMatch: req.headers['if-none-match'] as string | undefined });
+        const feed = FEEDS[req.url || ''];
+        if (!feed) {
+            res.writeHead(500).end('Internal error');
+        } else if (req.headers['if-none-match'] === feed.etag) {
+            res.writeHead(304).end();
+        } else {
+            res.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: feed.etag }).end(feed.body);
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('aggregateCategory against a local feed stub', () => {
+    it('fetches, merges and sorts every feed, then revalidates with conditional GETs', async () => {
+        const feedUrls = [`${baseUrl}/hindu.rss`, `${baseUrl}/bbc.rss`];
+        const first = await aggregateCategory(Category.INDIA, { feedUrls });
+
+        expect(first.articles).toHaveLength(4);
+        expect(first.articles.map(a => a.publishedAt)).toEqual([...first.articles.map(a => a.publishedAt)].sort().reverse());
+        expect(first.feeds[feedUrls[0]].etag).toBe('"hindu-1"');
+        expect(Object.values(first.health).every(h => h.consecutiveFailures === 0 && h.lastSuccessAt)).toBe(true);
+
+        requests.length = 0;
+        const second = await aggregateCategory(Category.INDIA, { feedUrls, feeds: first.feeds, health: first.health });
+
+        expect(requests.map(r => r.ifNoneMatch).sort()).toEqual(['"bbc-1"', '"hindu-1"']);
+        expect(second.articles.map(a => a.id)).toEqual(first.articles.map(a => a.id));
+    });
+
+    it('keeps the other feeds when one fails and records the failure', async () => {
+        const broken = `${baseUrl}/missing.rss`;
+        const result = await aggregateCategory(Category.INDIA, { feedUrls: [`${baseUrl}/bbc.rss`, broken] });
+
+        expect(result.articles).toHaveLength(2);
+        expect(result.health[broken]).toMatchObject({ consecutiveFailures: 1, lastError: 'Feed status 500' });
+    });
+
+    it('counts a 200 that yields no articles as a failure', async () => {
+        const portal = `${baseUrl}/portal.rss`;
+        const empty = `${baseUrl}/empty.rss`;
+        const result = await aggregateCategory(Category.INDIA, { feedUrls: [portal, empty] });
+
+        expect(result.articles).toEqual([]);
+        expect(result.health[portal]).toMatchObject({ consecutiveFailures: 1, lastError: 'Not a feed: unrecognised format' });
+        expect(result.health[empty]).toMatchObject({ consecutiveFailures: 1, lastError: 'Feed parsed to no items' });
+    });
+});
@@ -0,0 +1,121 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import { detectFeedFormat, parseFeed, parseTelegramPostRows, parseTelegramWidget } from '../services/feedParser';
+import { Category } from '../types';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseFeed', () => {
+    it('reads The Hindu RSS with CDATA fields and media:content images', () => {
+        const articles = parseFeed(fixture('the-hindu.xml'), 'https://www.thehindu.com/news/cities/Hyderabad/feeder/default.rss', Category.HYDERABAD);
+
+        expect(articles).toHaveLength(2);
+        expect(articles[0]).toMatchObject({
+            title: 'Metro Rail Phase II gets Cabinet nod',
+            source: 'THEHINDU',
+            category: Category.HYDERABAD,
+            description: 'The 76.4-km expansion will link the airport with the Old City & Future City.',
+            imageUrl: 'https://th-i.thgim.com/public/news/cities/Hyderabad/metro.jpg',
+            publishedAt: '2026-10-17T16:44:05.000Z'
+        });
+        expect(articles[0].url).toContain('article68800001.ece');
+        expect(articles[1].content).toBe('GHMC has invited objections.\n\nResidents of 14 colonies are expected to attend.');
+    });
+
+    it('reads Siasat WordPress RSS: entities, content:encoded body and its first image', () => {
+        const [article] = parseFeed(fixture('siasat.xml'), 'https://www.siasat.com/feed/', Category.TELANGANA);
+
+        expect(article.title).toBe('Telangana govt announces AI policy for startups – details');
+        expect(article.source).toBe('SIASAT');
+        expect(article.imageUrl).toBe('https://cdn.siasat.com/wp-content/uploads/2026/10/ai-policy.jpg');
+        expect(article.content).toContain('The state’s new policy offers seed grants of up to Rs 50 lakh.');
+        expect(article.content).not.toContain('window.ads');
+    });
+
+    it('reads BBC RSS with media:thumbnail and gives tracking variants of a link the same ID', () => {
+        const feedUrl = 'https://feeds.bbci.co.uk/news/world/rss.xml';
+        const articles = parseFeed(fixture('bbc.xml'), feedUrl, Category.INTERNATIONAL);
+        const again = parseFeed(fixture('bbc.xml').replace(/at_campaign=rss/g, 'at_campaign=other'), feedUrl, Category.INTERNATIONAL);
+
+        expect(articles.map(a => a.title)).toEqual([
+            'Climate summit reaches agreement on loss and damage fund',
+            'World Cup 2026 schedule released'
+        ]);
+        expect(articles[0].source).toBe('BBCI');
+        expect(articles[0].imageUrl).toBe('https://ichef.bbci.co.uk/ace/standard/240/cpsprodpb/climate.jpg');
+        expect(articles[1].imageUrl).toBe('');
+        expect(again.map(a => a.id)).toEqual(articles.map(a => a.id));
+    });
+
+    it('reads Atom entries and JSON Feed items', () => {
+        const atom = `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom">
+            <entry><title>Atom post</title><link rel="alternate" href="https://example.com/a"/><id>tag:example.com,2026:1</id>
+            <updated>2026-10-17T10:00:00Z</updated><summary type="html">&lt;p&gt;Lead&lt;/p&gt;</summary></entry></feed>`;
+        const json = JSON.stringify({
+            version: 'https://jsonfeed.org/version/1.1',
+            items: [{ id: 42, title: 'Numeric id, no url', content_text: 7 }, null, { id: 'b', url: 'https://example.com/b', title: 'JSON post' }]
+        });
+
+        expect(detectFeedFormat(atom)).toBe('atom');
+        expect(parseFeed(atom, 'https://example.com/feed', Category.INDIA)[0]).toMatchObject({
+            title: 'Atom post', url: 'https://example.com/a', description: 'Lead', publishedAt: '2026-10-17T10:00:00.000Z'
+        });
+        expect(parseFeed(json, 'https://example.com/feed.json', Category.INDIA).map(a => [a.title, a.url, a.content])).toEqual([
+            ['Numeric id, no url', '42', '7'],
+            ['JSON post', 'https://example.com/b', '']
+        ]);
+    });
+
+    it('returns nothing for HTML error pages and survives a malformed feed URL', () => {
+        expect(parseFeed('<!DOCTYPE html><html><body>Bad gateway</body></html>', 'https://example.com/rss', Category.INDIA)).toEqual([]);
+        expect(parseFeed(fixture('bbc.xml'), 'not a url', Category.INDIA)[0].source).toBe('NEWS');
+    });
+});
+
+describe('parseTelegramWidget', () => {
+    it('maps t.me/s posts newest first with text, media, views and dates', () => {
+        const posts = parseTelegramWidget(fixture('telegram-widget.html'));
+
+        expect(posts.map(p => p.url)).toEqual(['https://t.me/AzadStudioOfficial/102', 'https://t.me/AzadStudioOfficial/101']);
+
+        const [video, photo] = posts;
+        expect(video).toMatchObject({
+            id: 'tg_azadstudioofficial_102',
+            title: 'New Video Upload',
+            mediaType: 'video',
+            videoUrl: 'https://cdn4.telesco.pe/file/video102.mp4',
+            imageUrl: 'https://cdn4.telesco.pe/file/thumb102.jpg',
+            views: 987,
+            publishedAt: '2026-10-17T09:05:00.000Z'
+        });
+        expect(photo).toMatchObject({
+            id: 'tg_azadstudioofficial_101',
+            title: 'Naya gaana release ho gaya!',
+            description: 'Naya gaana release ho gaya!\n\nSuniye aur share kijiye & apni raaye dijiye.',
+            imageUrl: 'https://cdn4.telesco.pe/file/photo101.jpg',
+            views: 1200
+        });
+        expect(photo.attachments).toEqual([{ kind: 'image', url: 'https://cdn4.telesco.pe/file/photo101.jpg' }]);
+    });
+
+    it('labels a post the same way the bot archive does', () => {
+        vi.useFakeTimers({ now: new Date('2026-10-17T11:05:00Z') });
+        try {
+            const [fromWidget] = parseTelegramWidget(fixture('telegram-widget.html'));
+            const [fromArchive] = parseTelegramPostRows([{
+                chat_id: -1001873021934, message_id: 102, channel: 'AzadStudioOfficial', title: null, message: '',
+                media_url: null, media_type: 'video', media_file_id: null, media_group_id: null, attachments: [],
+                views: 987, posted_at: '2026-10-17T09:05:00+00:00', edited_at: null
+            }], 'AzadStudioOfficial');
+
+            expect(fromWidget.timestamp).toBe('2 hr ago');
+            expect(fromArchive.timestamp).toBe(fromWidget.timestamp);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('ignores pages without widget messages', () => {
+        expect(parseTelegramWidget('<html><body>Channel not found</body></html>')).toEqual([]);
+    });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Category } from '../types';
+
+vi.mock('../services/feedAggregator', () => ({
+    aggregateCategory: vi.fn(async () => ({ articles: [{ id: 'rss_1', title: 'Story' }], feeds: {}, health: {} }))
+}));
+
+const { aggregateCategory } = await import('../services/feedAggregator');
+const { default: handler } = await import('../services/api/feeds');
+
+const call = async (query: Record<string, string>, headers: Record<string, string> = {}) => {
+    const res: any = { headers: {} };
+    res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+    res.end = () => res;
+    await handler({ method: 'GET', query, headers }, res);
+    return res;
+};
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.mocked(aggregateCategory).mockClear();
+});
+
+describe('GET /api/feeds without a category', () => {
+    it('refuses to refresh everything without the cron secret or the editor token', async () => {
+        vi.stubEnv('CRON_SECRET', 'cron-secret');
+        vi.stubEnv('EDITOR_API_TOKEN', 'editor-token');
+
+        expect((await call({})).statusCode).toBe(401);
+        expect((await call({}, { authorization: 'Bearer guess' })).statusCode).toBe(401);
+        expect(aggregateCategory).not.toHaveBeenCalled();
+    });
+
+    it('refreshes every category for the cron job and for editors', async () => {
+        vi.stubEnv('CRON_SECRET', 'cron-secret');
+        vi.stubEnv('EDITOR_API_TOKEN', 'editor-token');
+
+        const cron = await call({}, { authorization: 'Bearer cron-secret' });
+        expect(cron.statusCode).toBe(200);
+        expect(cron.body.refreshed).toContainEqual({ category: Category.HYDERABAD, count: 1 });
+
+        expect((await call({}, { authorization: 'Bearer editor-token' })).statusCode).toBe(200);
+    });
+
+    it('stays closed when no secret is configured', async () => {
+        expect((await call({}, { authorization: 'Bearer ' })).statusCode).toBe(401);
+    });
+});
+
+describe('GET /api/feeds?category=', () => {
+    const story = { id: 'rss_1', title: 'Story', description: 'First draft', relatedSources: [] };
+
+    it('changes the ETag when anything in the articles changes, not only their ids', async () => {
+        vi.mocked(aggregateCategory).mockResolvedValueOnce({ articles: [story], feeds: {}, health: {} } as any);
+        const first = await call({ category: Category.HYDERABAD });
+
+        vi.mocked(aggregateCategory).mockResolvedValueOnce({ articles: [{ ...story, description: 'Updated with the final toll' }], feeds: {}, health: {} } as any);
+        const second = await call({ category: Category.HYDERABAD });
+
+        expect(first.headers.ETag).toMatch(/^W\/"[0-9a-f]{64}"$/);
+        expect(second.headers.ETag).not.toBe(first.headers.ETag);
+    });
+
+    it('answers 304 while the payload is unchanged', async () => {
+        vi.mocked(aggregateCategory).mockResolvedValueOnce({ articles: [story], feeds: {}, health: {} } as any);
+        const first = await call({ category: Category.HYDERABAD });
+        vi.mocked(aggregateCategory).mockResolvedValueOnce({ articles: [story], feeds: {}, health: {} } as any);
+        const again = await call({ category: Category.HYDERABAD }, { 'if-none-match': first.headers.ETag });
+
+        expect(again.statusCode).toBe(304);
+    });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const cachedRows: Record<string, unknown> = {};
+const generateContent = vi.fn();
+
+vi.mock('../services/supabaseClient', () => {
+    const from = () => {
+        let id = '';
+        const query: any = {
+            select: () => query,
+            eq: (_column: string, value: string) => { id = value; return query; },
+            single: async () => cachedRows[id] ? { data: { data: cachedRows[id] }, error: null } : { data: null, error: { message: 'No rows' } },
+            upsert: () => Promise.resolve({ error: null })
+        };
+        return query;
+    };
+    return { supabase: { from }, isSupabaseConfigured: () => true };
+});
+
+vi.mock('@google/genai', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@google/genai')>()),
+    GoogleGenAI: class { models = { generateContent }; }
+}));
+
+const { enhanceArticle } = await import('../services/geminiService');
+
+const TITLE = 'Metro Rail Phase II gets Cabinet nod';
+const SOURCE = 'The 76.4-km expansion will link the airport with the Old City and Future City.';
+const ENGLISH = {
+    fullArticle: 'Metro Rail Phase II gets Cabinet nod. The 76.4-km expansion will link the airport with the Old City and Future City.',
+    summaryShort: 'The 76.4-km metro expansion was approved.'
+};
+const stamp = () => ({ promptVersion: 2, model: 'gemini-2.5-flash', createdAt: new Date().toISOString() });
+
+beforeEach(() => {
+    generateContent.mockReset();
+    generateContent.mockResolvedValue({ text: JSON.stringify(ENGLISH) });
+});
+
+describe('enhanceArticle cache reads', () => {
+    it('serves a current, valid cached row without calling the model', async () => {
+        cachedRows['rss_valid'] = { ...ENGLISH, translations: {}, cacheInfo: stamp() };
+
+        const content = await enhanceArticle('rss_valid', TITLE, SOURCE);
+
+        expect(content.fullArticle).toBe(ENGLISH.fullArticle);
+        expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('regenerates a current row whose fields fail validation', async () => {
+        cachedRows['rss_wrong_script'] = {
+            fullArticle: 'मेट्रो रेल के दूसरे चरण को कैबिनेट की मंजूरी मिल गई है और यह हवाई अड्डे को जोड़ेगा।',
+            summaryShort: '',
+            translations: {},
+            cacheInfo: stamp()
+        };
+
+        const content = await enhanceArticle('rss_wrong_script', TITLE, SOURCE);
+
+        expect(generateContent).toHaveBeenCalledTimes(1);
+        expect(content.summaryShort).toBe(ENGLISH.summaryShort);
+    });
+});
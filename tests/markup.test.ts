@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { extractFirstImage, htmlToText } from '../utils/markup';
+
+describe('htmlToText', () => {
+    it('turns block elements and <br> into line breaks and decodes entities', () => {
+        expect(htmlToText('<p>First &amp; foremost</p><p>Second<br>line&nbsp;here</p>')).toBe('First & foremost\n\nSecond\nline here');
+    });
+
+    it('drops scripts and styles and collapses whitespace', () => {
+        expect(htmlToText('<div>  Spaced   out <script>track()</script><style>p{}</style> text </div>')).toBe('Spaced out text');
+    });
+
+    it('handles empty and plain input', () => {
+        expect(htmlToText('')).toBe('');
+        expect(htmlToText('Just text')).toBe('Just text');
+    });
+});
+
+describe('extractFirstImage', () => {
+    it('returns the first <img> with a src', () => {
+        expect(extractFirstImage('<p>Lead</p><img alt="x"><img src="https://cdn.example.com/a.jpg"><img src="b.jpg">')).toBe('https://cdn.example.com/a.jpg');
+    });
+
+    it('returns an empty string when there is no image', () => {
+        expect(extractFirstImage('<p>No pictures</p>')).toBe('');
+        expect(extractFirstImage('')).toBe('');
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { chunkSpeechText, splitSentenceSpans, splitSpeechSentences } from '../utils/speechChunks';
+
+describe('splitSpeechSentences', () => {
+    it('splits on Latin, Urdu and Devanagari sentence ends', () => {
+        expect(splitSpeechSentences('One. Two? تین۔ चार। Five!')).toEqual(['One.', 'Two?', 'تین۔', 'चार।', 'Five!']);
+    });
+
+    it('keeps whitespace in spans so they join back into the text', () => {
+        const text = 'First one.  Second "quoted." Third';
+        expect(splitSentenceSpans(text).join('')).toBe(text);
+    });
+});
+
+describe('chunkSpeechText', () => {
+    it('packs whole sentences up to the limits, with a shorter first chunk', () => {
+        const text = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1} is here.`).join(' ');
+        const chunks = chunkSpeechText(text, 80, 200);
+
+        expect(chunks[0].length).toBeLessThanOrEqual(80);
+        expect(chunks.slice(1).every(chunk => chunk.length <= 200)).toBe(true);
+        expect(chunks.every(chunk => chunk.endsWith('.'))).toBe(true);
+        expect(chunks.join(' ')).toBe(text);
+    });
+
+    it('breaks a long opening sentence at a clause or word boundary within the first-chunk limit', () => {
+        const opening = 'The council met on Tuesday, ' + 'and the members debated the budget at great length '.repeat(18).trim() + '.';
+        const chunks = chunkSpeechText(`${opening} Short close.`, 120, 1200);
+
+        expect(opening.length).toBeGreaterThan(900);
+        expect(chunks[0]).toBe('The council met on Tuesday,');
+        expect(chunks.slice(1).every(chunk => chunk.length <= 1200)).toBe(true);
+        expect(chunks.join(' ')).toBe(`${opening} Short close.`);
+    });
+
+    it('splits a sentence longer than the chunk limit at word boundaries', () => {
+        const sentence = 'word '.repeat(100).trim() + '.';
+        const chunks = chunkSpeechText(sentence, 50, 120);
+
+        expect(chunks.every(chunk => chunk.length <= 120)).toBe(true);
+        expect(chunks[0].length).toBeLessThanOrEqual(50);
+        expect(chunks.join(' ')).toBe(sentence);
+    });
+});
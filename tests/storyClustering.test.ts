@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { clusterArticles } from '../services/storyClustering';
+import { Article, Category } from '../types';
+
+const article = (id: string, source: string, title: string, description: string, imageUrl = ''): Article => ({
+    id, source, title, description, imageUrl,
+    timestamp: 'Recent',
+    category: Category.SPORTS,
+    url: `https://${source.toLowerCase()}.example.com/${id}`
+});
+
+describe('clusterArticles', () => {
+    it('folds reports of one story into its representative and keeps every member id', () => {
+        const stories = clusterArticles([
+            article('rss_a', 'SIASAT', 'Metro Rail Phase II gets Cabinet nod', 'The 76.4-km expansion will link the airport with the Old City.'),
+            article('rss_b', 'THEHINDU', 'Metro Rail Phase II gets Cabinet nod', 'The 76.4-km expansion will link the airport with the Old City and Future City.', 'https://img.example.com/metro.jpg'),
+            article('rss_c', 'BBC', 'Floods hit coastal Andhra Pradesh', 'Thousands have been moved to relief camps.')
+        ]);
+
+        expect(stories).toHaveLength(2);
+        expect(stories[0]).toMatchObject({
+            id: 'rss_b',
+            clusterId: 'rss_b',
+            memberIds: ['rss_b', 'rss_a'],
+            relatedSources: [{ source: 'SIASAT', title: 'Metro Rail Phase II gets Cabinet nod', url: 'https://siasat.example.com/rss_a' }]
+        });
+        expect(stories[1].memberIds).toBeUndefined();
+    });
+
+    it('keeps headlines with opposite outcomes apart', () => {
+        const stories = clusterArticles([
+            article('rss_win', 'SIASAT', 'India beat Australia', 'Second Test in Perth.'),
+            article('rss_loss', 'THEHINDU', 'India lose to Australia', 'Second Test in Perth.')
+        ]);
+
+        expect(stories.map(story => story.id)).toEqual(['rss_win', 'rss_loss']);
+    });
+});
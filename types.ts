@@ -15,32 +15,144 @@ export interface Article {
   id: string;
   title: string;
   source: string;
-  timestamp: string;
-  imageUrl?: string;
+  timestamp: string; // Display text for items without a known publication time
+  publishedAt?: string; // ISO 8601
+  imageUrl?: string; // Cover image; for posts with attachments, mirrors the first visual one
   videoUrl?: string;
   mediaType?: 'image' | 'video';
+  attachments?: MediaAttachment[]; // Every media item of the post, in order (Telegram albums have several)
   description: string;
   summaryShort?: string;
-  descriptionRomanUrdu?: string;
-  descriptionUrdu?: string;
-  descriptionHindi?: string;
-  descriptionTelugu?: string;
+  descriptionTranslations?: Record<LanguageCode, string>; // Ready-made translations of the description
   content?: string;
   category: Category;
   url: string;
+  clusterId?: string;
+  memberIds?: string[]; // Every article folded into this story, this one first; set with clusterId
+  relatedSources?: RelatedSource[]; // Other outlets carrying the same story
+  views?: number; // Telegram view count, when the source reports one
+  editedAt?: string; // ISO 8601, set when the source post was changed after publishing
+  pinned?: boolean; // Featured by an editor; pinned Azad Studio posts lead the feed
+}
+
+export type MediaKind = 'image' | 'video' | 'animation' | 'audio' | 'voice' | 'document';
+
+export interface MediaAttachment {
+  kind: MediaKind;
+  url: string;
+  thumbnailUrl?: string;
+  mimeType?: string;
+  fileName?: string; // Documents and audio files
+  title?: string; // Audio track title
+  performer?: string;
+  width?: number; // Pixels, for images and video
+  height?: number;
+  duration?: number; // Seconds, for audio, voice and video
+}
+
+export interface RelatedSource {
+  source: string;
+  title: string;
+  url: string;
+}
+
+export type TelegramMediaType = 'photo' | 'video' | 'animation' | 'audio' | 'voice' | 'document';
+
+// A `telegram_posts` row, written by the channel bot webhook (services/api/bot.ts)
+export interface TelegramPostRow {
+  id?: number; // Serial, assigned by the database
+  chat_id: number;
+  message_id: number;
+  channel: string | null; // Public username without the @, for t.me links and article IDs
+  title: string | null;
+  message: string;
+  media_url: string | null; // First attachment, kept for rows and readers that predate attachments
+  media_type: TelegramMediaType | null;
+  media_file_id: string | null; // Telegram file_id, to fetch the media again
+  media_group_id: string | null; // Shared by the messages of one album, which the client shows as one post
+  attachments: MediaAttachment[] | null;
+  views: number | null; // Bot API updates carry no view counts, so the bot leaves this null
+  posted_at: string | null; // ISO 8601 message date
+  edited_at: string | null; // ISO 8601 date of the last edit
+  hidden?: boolean; // Soft delete set by an editor (defaults to false); the bot never writes it
+  pinned?: boolean; // Featured by an editor (defaults to false); the bot's post handler never writes it
+  created_at?: string; // Insert time, set by the database
+}
+
+// A `telegram_post_revisions` row: a version of a post as it was before an edit replaced it
+export interface TelegramPostRevision {
+  id?: number;
+  chat_id: number;
+  message_id: number;
+  title: string | null;
+  message: string;
+  media_url: string | null;
+  media_type: TelegramMediaType | null;
+  attachments: MediaAttachment[] | null;
+  published_at: string | null; // ISO 8601: when this version went out (post date or the edit before it)
+  replaced_at: string | null; // ISO 8601 date of the edit that replaced it
+  created_at?: string;
+}
+
+// A `telegram_dead_letters` row: a webhook update the bot failed to archive, kept until a redelivery succeeds
+export interface TelegramDeadLetter {
+  update_id: number;
+  payload: unknown; // The Update JSON exactly as Telegram sent it
+  error: string;
+  failed_at: string; // ISO 8601 date of the latest failed attempt
+}
+
+// Main body text pulled from the publisher's page by /api/extract
+export interface ExtractedArticle {
+  url: string;
+  title: string;
+  byline: string;
+  leadImage: string;
+  text: string;
+  extractedAt: string;
+}
+
+// A code from the language registry in languages.ts, e.g. 'ur' or 'ur-Latn'
+export type LanguageCode = string;
+
+// Stamped on cached AI output so a prompt or model change, or age, invalidates it
+export interface AiCacheInfo {
+  promptVersion: number;
+  model: string;
+  createdAt: string;
+}
+
+export interface ArticleTranslation {
+  summary: string;
+  fullArticle?: string;
+  cacheInfo?: AiCacheInfo;
 }
 
 export interface EnhancedArticleContent {
   fullArticle: string;
   summaryShort: string;
-  summaryRomanUrdu: string;
-  summaryUrdu: string;
-  summaryHindi: string;
-  summaryTelugu: string;
-  fullArticleRomanUrdu?: string;
-  fullArticleUrdu?: string;
-  fullArticleHindi?: string;
-  fullArticleTelugu?: string;
+  translations: Record<LanguageCode, ArticleTranslation>;
+  grounding?: GroundingReport; // Present once fullArticle has been checked against the source
+  cacheInfo?: AiCacheInfo;
+}
+
+export interface GroundingReport {
+  removedSentences: number;
+  unsupportedClaims: string[];
+  checkedAt: string;
+}
+
+export type FeedHealthStatus = 'healthy' | 'failing' | 'quarantined';
+
+export interface FeedHealth {
+  feedUrl: string;
+  category: Category;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  retryAt: string | null; // Set while the feed is quarantined
 }
 
 export interface TeamMember {
@@ -0,0 +1,81 @@
+/**
+ * IndexedDB store for generated speech, so replays survive reloads without another TTS
+ * call or Supabase round trip. Keeps the newest MAX_STORED_AUDIO clips; every call
+ * degrades to a no-op / miss where IndexedDB is unavailable (private mode, old WebViews).
+ */
+
+const DB_NAME = 'news-pulse-audio';
+const DB_VERSION = 1;
+const STORE = 'audio';
+const MAX_STORED_AUDIO = 100;
+
+interface StoredAudio {
+    key: string;
+    data: string; // base64 PCM
+    storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB unavailable'));
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('storedAt', 'storedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export const getStoredAudio = async (key: string): Promise<string | null> => {
+    try {
+        const db = await openDb();
+        const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+        const record = await new Promise<StoredAudio | undefined>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return record ? record.data : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const storeAudio = async (key: string, data: string): Promise<void> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        store.put({ key, data, storedAt: Date.now() } as StoredAudio);
+
+        // Drop the oldest clips beyond the cap
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - MAX_STORED_AUDIO;
+            if (excess <= 0) return;
+            store.index('storedAt').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor || excess <= 0) return;
+                cursor.delete();
+                excess--;
+                cursor.continue();
+            };
+        };
+        await done(tx);
+    } catch (e) {
+        console.warn("Failed to store audio in IndexedDB", e);
+    }
+};
@@ -0,0 +1,88 @@
+/**
+ * Size-aware LRU cache for in-memory AI content. Entries are weighed by the caller's
+ * `sizeOf`, and the least recently used ones are evicted once `maxBytes` is exceeded.
+ */
+
+export interface LruCacheStats {
+    name: string;
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+    evictedBytes: number;
+}
+
+export interface LruCache<V> {
+    get: (key: string) => V | undefined;
+    set: (key: string, value: V) => void;
+    has: (key: string) => boolean;
+    delete: (key: string) => boolean;
+    keys: () => string[];
+    stats: () => LruCacheStats;
+}
+
+interface LruCacheOptions<V> {
+    name: string;
+    maxBytes: number;
+    sizeOf: (value: V) => number;
+}
+
+// Rough in-memory size of JSON-like values (JS strings are UTF-16)
+export const jsonByteSize = (value: unknown): number => JSON.stringify(value).length * 2;
+
+export const createLruCache = <V>({ name, maxBytes, sizeOf }: LruCacheOptions<V>): LruCache<V> => {
+    // Map iteration follows insertion order, so re-inserting on access keeps the oldest entry first
+    const entries = new Map<string, { value: V; size: number }>();
+    let bytes = 0;
+    let hits = 0;
+    let misses = 0;
+    let evictions = 0;
+    let evictedBytes = 0;
+
+    const remove = (key: string): boolean => {
+        const entry = entries.get(key);
+        if (!entry) return false;
+        entries.delete(key);
+        bytes -= entry.size;
+        return true;
+    };
+
+    return {
+        get: (key) => {
+            const entry = entries.get(key);
+            if (!entry) {
+                misses++;
+                return undefined;
+            }
+            entries.delete(key);
+            entries.set(key, entry);
+            hits++;
+            return entry.value;
+        },
+
+        set: (key, value) => {
+            remove(key);
+            const size = sizeOf(value);
+            if (size > maxBytes) return; // Would evict everything else and still not fit
+
+            entries.set(key, { value, size });
+            bytes += size;
+            while (bytes > maxBytes) {
+                const oldest = entries.keys().next().value as string;
+                evictedBytes += entries.get(oldest)!.size;
+                evictions++;
+                remove(oldest);
+            }
+        },
+
+        has: (key) => entries.has(key),
+
+        delete: remove,
+
+        keys: () => Array.from(entries.keys()),
+
+        stats: () => ({ name, entries: entries.size, bytes, maxBytes, hits, misses, evictions, evictedBytes })
+    };
+};
@@ -0,0 +1,251 @@
+/**
+ * Minimal, dependency-free XML/HTML reader.
+ * Works the same in the browser, in Node (Vercel functions) and in headless tests,
+ * so nothing here may touch DOMParser, document or window.
+ */
+
+export interface MarkupNode {
+    name: string;
+    attrs: Record<string, string>;
+    children: MarkupChild[];
+}
+
+export type MarkupChild = MarkupNode | string;
+
+const VOID_ELEMENTS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const BLOCK_ELEMENTS = new Set([
+    'p', 'div', 'li', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'table', 'tr', 'section', 'article', 'figure', 'figcaption'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™', deg: '°', rupee: '₹'
+};
+
+export const decodeEntities = (text: string): string => {
+    if (!text.includes('&')) return text;
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            try { return String.fromCodePoint(code); } catch (e) { return match; }
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+};
+
+const ATTR_PATTERN = /([^\s=\/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const parseAttrs = (source: string, lowerCase: boolean): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    let match: RegExpExecArray | null;
+    ATTR_PATTERN.lastIndex = 0;
+    while ((match = ATTR_PATTERN.exec(source))) {
+        const name = lowerCase ? match[1].toLowerCase() : match[1];
+        attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attrs;
+};
+
+// Finds the closing '>' of a tag, skipping any '>' inside quoted attribute values
+const findTagEnd = (src: string, from: number): number => {
+    let quote = '';
+    for (let i = from; i < src.length; i++) {
+        const ch = src[i];
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '>') {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Parses markup into a lenient tree. In `html` mode tag names are lower-cased,
+ * void elements never take children and unclosed tags are closed implicitly.
+ * The returned root node is named '#root'.
+ */
+export const parseMarkup = (src: string, options: { html?: boolean } = {}): MarkupNode => {
+    const html = !!options.html;
+    const root: MarkupNode = { name: '#root', attrs: {}, children: [] };
+    const stack: MarkupNode[] = [root];
+    const current = () => stack[stack.length - 1];
+    let pos = 0;
+
+    const pushText = (text: string) => {
+        if (text) current().children.push(text);
+    };
+
+    while (pos < src.length) {
+        const lt = src.indexOf('<', pos);
+        if (lt === -1) {
+            pushText(decodeEntities(src.slice(pos)));
+            break;
+        }
+        pushText(decodeEntities(src.slice(pos, lt)));
+
+        if (src.startsWith('<!--', lt)) {
+            const end = src.indexOf('-->', lt + 4);
+            pos = end === -1 ? src.length : end + 3;
+            continue;
+        }
+
+        if (src.startsWith('<![CDATA[', lt)) {
+            const end = src.indexOf(']]>', lt + 9);
+            pushText(src.slice(lt + 9, end === -1 ? src.length : end));
+            pos = end === -1 ? src.length : end + 3;
+            continue;
+        }
+
+        if (src[lt + 1] === '!' || src[lt + 1] === '?') {
+            const end = src.indexOf('>', lt);
+            pos = end === -1 ? src.length : end + 1;
+            continue;
+        }
+
+        const end = findTagEnd(src, lt + 1);
+        if (end === -1) {
+            pushText(src.slice(lt));
+            break;
+        }
+
+        const tag = src.slice(lt + 1, end);
+        pos = end + 1;
+
+        if (tag[0] === '/') {
+            const rawName = tag.slice(1).trim();
+            const name = html ? rawName.toLowerCase() : rawName;
+            // Only close if the element is actually open; stray closers are ignored
+            for (let i = stack.length - 1; i > 0; i--) {
+                if (stack[i].name === name) {
+                    stack.length = i;
+                    break;
+                }
+            }
+            continue;
+        }
+
+        const nameMatch = tag.match(/^[^\s\/>]+/);
+        if (!nameMatch) {
+            pushText('<' + tag + '>');
+            continue;
+        }
+
+        const name = html ? nameMatch[0].toLowerCase() : nameMatch[0];
+        const selfClosing = tag.endsWith('/');
+        const node: MarkupNode = {
+            name,
+            attrs: parseAttrs(tag.slice(nameMatch[0].length, selfClosing ? -1 : undefined), html),
+            children: []
+        };
+        current().children.push(node);
+
+        if (selfClosing || (html && VOID_ELEMENTS.has(name))) continue;
+
+        if (html && RAW_TEXT_ELEMENTS.has(name)) {
+            const close = src.toLowerCase().indexOf(`</${name}`, pos);
+            node.children.push(src.slice(pos, close === -1 ? src.length : close));
+            const closeEnd = close === -1 ? -1 : src.indexOf('>', close);
+            pos = closeEnd === -1 ? src.length : closeEnd + 1;
+            continue;
+        }
+
+        stack.push(node);
+    }
+
+    return root;
+};
+
+// --- Tree helpers ---
+
+export const isNode = (child: MarkupChild): child is MarkupNode => typeof child !== 'string';
+
+export const localName = (node: MarkupNode): string => {
+    const idx = node.name.indexOf(':');
+    return idx === -1 ? node.name : node.name.slice(idx + 1);
+};
+
+export const elements = (node: MarkupNode): MarkupNode[] => node.children.filter(isNode);
+
+export const findAll = (node: MarkupNode, predicate: (n: MarkupNode) => boolean): MarkupNode[] => {
+    const found: MarkupNode[] = [];
+    const walk = (n: MarkupNode) => {
+        for (const child of n.children) {
+            if (!isNode(child)) continue;
+            if (predicate(child)) found.push(child);
+            walk(child);
+        }
+    };
+    walk(node);
+    return found;
+};
+
+export const findFirst = (node: MarkupNode, predicate: (n: MarkupNode) => boolean): MarkupNode | undefined => {
+    for (const child of node.children) {
+        if (!isNode(child)) continue;
+        if (predicate(child)) return child;
+        const nested = findFirst(child, predicate);
+        if (nested) return nested;
+    }
+    return undefined;
+};
+
+export const hasClass = (node: MarkupNode, className: string): boolean => {
+    return (node.attrs['class'] || '').split(/\s+/).includes(className);
+};
+
+export const textContent = (node: MarkupChild): string => {
+    if (!isNode(node)) return node;
+    return node.children.map(textContent).join('');
+};
+
+// --- HTML cleaning ---
+
+const renderText = (node: MarkupChild): string => {
+    if (!isNode(node)) return node;
+    if (RAW_TEXT_ELEMENTS.has(node.name)) return '';
+    if (node.name === 'br') return '\n';
+
+    const inner = node.children.map(renderText).join('');
+    return BLOCK_ELEMENTS.has(node.name) ? `\n${inner}\n` : inner;
+};
+
+/**
+ * Renders an already-parsed HTML node as readable plain text.
+ * Line breaks and block elements become newlines; runs of whitespace are collapsed.
+ */
+export const nodeToText = (node: MarkupNode): string => {
+    return renderText(node)
+        .split('\n')
+        .map(line => line.replace(/[ \t\f\r\u00a0]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+export const htmlToText = (html: string): string => {
+    if (!html) return '';
+    return nodeToText(parseMarkup(html, { html: true }));
+};
+
+export const extractFirstImage = (html: string): string => {
+    if (!html || !html.includes('<img')) return '';
+    const img = findFirst(parseMarkup(html, { html: true }), n => n.name === 'img' && !!n.attrs['src']);
+    return img?.attrs['src'] || '';
+};
+
+// Helper to extract image from style string
+export const extractBgImage = (style: string): string => {
+    const match = style.match(/url\(['"]?(.*?)['"]?\)/);
+    return match ? match[1] : '';
+};
@@ -0,0 +1,193 @@
+import { AudioMetadata, PCM_CHANNELS, PCM_SAMPLE_RATE } from './wav';
+
+/**
+ * Compressed narration downloads: 16-bit PCM encoded to Opus with WebCodecs and muxed into
+ * an Ogg container (RFC 7845), the format WhatsApp uses for voice notes. Roughly a tenth
+ * of the WAV size. Only available where the browser ships an Opus AudioEncoder.
+ */
+
+const OPUS_BITRATE = 32000;
+const OPUS_GRANULE_RATE = 48000;   // Ogg Opus granule positions always count 48kHz samples
+const DEFAULT_PRE_SKIP = 312;      // libopus encoder lookahead at 48kHz
+const DEFAULT_PACKET_US = 20000;
+const ENCODE_FRAMES = 4800;        // PCM frames handed to the encoder per AudioData
+const PACKETS_PER_PAGE = 50;       // ~1s of audio per Ogg page
+const VENDOR = 'News Pulse AI';
+
+const encoderConfig = (sampleRate: number): AudioEncoderConfig => ({
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: PCM_CHANNELS,
+    bitrate: OPUS_BITRATE
+});
+
+export const isOpusEncodingSupported = async (sampleRate: number = PCM_SAMPLE_RATE): Promise<boolean> => {
+    if (typeof AudioEncoder === 'undefined') return false;
+    try {
+        return !!(await AudioEncoder.isConfigSupported(encoderConfig(sampleRate))).supported;
+    } catch (e) {
+        return false;
+    }
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+        table[i] = r >>> 0;
+    }
+    return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+    }
+    return crc;
+};
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array => {
+    // Lacing: each packet is a run of 255-byte segments ending in one shorter than 255
+    const lacing: number[] = [];
+    packets.forEach(packet => {
+        for (let left = packet.length; ; left -= 255) {
+            lacing.push(Math.min(left, 255));
+            if (left < 255) break;
+        }
+    });
+
+    const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+    view.setUint8(4, 0);                   // stream structure version
+    view.setUint8(5, headerType);
+    view.setBigUint64(6, BigInt(granule), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    packets.forEach(packet => {
+        page.set(packet, offset);
+        offset += packet.length;
+    });
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+};
+
+const opusHead = (sampleRate: number, preSkip: number): Uint8Array => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'), 0);
+    view.setUint8(8, 1);                    // version
+    view.setUint8(9, PCM_CHANNELS);
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, sampleRate, true);   // original input rate, informational
+    view.setInt16(16, 0, true);             // output gain
+    view.setUint8(18, 0);                   // mapping family: mono/stereo
+    return head;
+};
+
+const opusTags = (metadata: AudioMetadata): Uint8Array => {
+    const encoder = new TextEncoder();
+    const vendor = encoder.encode(VENDOR);
+    const comments = [
+        `TITLE=${metadata.title}`,
+        `ARTIST=${metadata.source}`,
+        `LANGUAGE=${metadata.language}`,
+        metadata.date ? `DATE=${metadata.date.slice(0, 10)}` : ''
+    ].filter(Boolean).map(comment => encoder.encode(comment));
+
+    const length = 8 + 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+    const tags = new Uint8Array(length);
+    const view = new DataView(tags.buffer);
+    tags.set(encoder.encode('OpusTags'), 0);
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    let offset = 12 + vendor.length;
+    view.setUint32(offset, comments.length, true);
+    offset += 4;
+    comments.forEach(comment => {
+        view.setUint32(offset, comment.length, true);
+        tags.set(comment, offset + 4);
+        offset += 4 + comment.length;
+    });
+    return tags;
+};
+
+// The encoder may describe its own stream with an OpusHead; its pre-skip is the one to trust
+const preSkipFrom = (description: AllowSharedBufferSource | undefined): number => {
+    if (!description) return DEFAULT_PRE_SKIP;
+    const bytes = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+        : new Uint8Array(description);
+    if (bytes.length < 19 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return DEFAULT_PRE_SKIP;
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(10, true);
+};
+
+export const encodeOggOpus = async (pcm: Uint8Array, metadata: AudioMetadata, sampleRate: number = PCM_SAMPLE_RATE): Promise<Blob> => {
+    const samples = new Int16Array(pcm.slice(0, pcm.length - (pcm.length % 2)).buffer);
+    const packets: { data: Uint8Array; samples: number }[] = [];
+    let preSkip = DEFAULT_PRE_SKIP;
+    let encodeError: Error | null = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            const duration = chunk.duration ?? DEFAULT_PACKET_US;
+            packets.push({ data, samples: Math.round(duration * OPUS_GRANULE_RATE / 1e6) });
+            if (meta?.decoderConfig) preSkip = preSkipFrom(meta.decoderConfig.description);
+        },
+        error: (e) => { encodeError = e; }
+    });
+    encoder.configure(encoderConfig(sampleRate));
+
+    for (let offset = 0; offset < samples.length; offset += ENCODE_FRAMES) {
+        const frames = samples.subarray(offset, offset + ENCODE_FRAMES);
+        const data = new AudioData({
+            format: 's16',
+            sampleRate,
+            numberOfChannels: PCM_CHANNELS,
+            numberOfFrames: frames.length,
+            timestamp: Math.round(offset / sampleRate * 1e6),
+            data: frames
+        });
+        encoder.encode(data);
+        data.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    const serial = (Math.random() * 0xffffffff) >>> 0;
+    const pages: Uint8Array[] = [
+        oggPage([opusHead(sampleRate, preSkip)], 0, serial, 0, HEADER_TYPE_BOS),
+        oggPage([opusTags(metadata)], 0, serial, 1, 0)
+    ];
+
+    // Granules count decoded samples, pre-skip included; the last page's trims the encoder's padding
+    const endGranule = preSkip + Math.round(samples.length * OPUS_GRANULE_RATE / sampleRate);
+    let granule = 0;
+    for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+        const pagePackets = packets.slice(i, i + PACKETS_PER_PAGE);
+        granule += pagePackets.reduce((sum, packet) => sum + packet.samples, 0);
+        const isLast = i + PACKETS_PER_PAGE >= packets.length;
+        pages.push(oggPage(
+            pagePackets.map(packet => packet.data),
+            isLast ? Math.min(granule, Math.max(endGranule, granule - pagePackets[pagePackets.length - 1].samples)) : granule,
+            serial,
+            pages.length,
+            isLast ? HEADER_TYPE_EOS : 0
+        ));
+    }
+
+    return new Blob(pages as Uint8Array<ArrayBuffer>[], { type: 'audio/ogg; codecs=opus' });
+};
@@ -0,0 +1,37 @@
+/**
+ * Reads string fields out of a JSON object that is still being streamed, so text can be
+ * shown before the closing brace arrives. Only flat `"field": "..."` pairs are supported.
+ */
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+// The decoded value of `field` so far, or '' if its value hasn't started yet
+export const readPartialJsonString = (json: string, field: string): string => {
+    const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+    if (!start) return '';
+
+    let value = '';
+    for (let i = start.index + start[0].length; i < json.length; i++) {
+        const char = json[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+
+        const next = json[i + 1];
+        if (next === undefined) break; // Escape split across chunks
+        if (next === 'u') {
+            const hex = json.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += SIMPLE_ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+    return value;
+};
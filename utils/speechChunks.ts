@@ -0,0 +1,63 @@
+/**
+ * Sentence-aware chunking for TTS. Chunks end at sentence boundaries in every script we
+ * publish in (. ! ? plus Urdu ۔ ؟ and Devanagari । ॥); a sentence is only broken when it
+ * alone exceeds the chunk limit.
+ */
+
+const SENTENCE_BOUNDARY = /(?<=[.!?۔؟।॥]["'”’)\]]*)\s+/;
+
+export const splitSpeechSentences = (text: string): string[] => {
+    return text.split(SENTENCE_BOUNDARY).map(s => s.trim()).filter(Boolean);
+};
+
+// The same sentences with their trailing whitespace kept, so the pieces join back into `text` for rendering
+export const splitSentenceSpans = (text: string): string[] => {
+    return text.split(/(?<=[.!?۔؟।॥]["'”’)\]]*\s+)(?!\s)/);
+};
+
+// Breaks an over-long sentence at the last comma, or failing that the last space, before the limit
+const splitLongSentence = (sentence: string, maxChars: number): string[] => {
+    const parts: string[] = [];
+    let rest = sentence;
+    while (rest.length > maxChars) {
+        const window = rest.slice(0, maxChars);
+        let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('، '));
+        if (cut <= 0) cut = window.lastIndexOf(' ');
+        if (cut <= 0) cut = maxChars - 1;
+        parts.push(rest.slice(0, cut + 1).trim());
+        rest = rest.slice(cut + 1).trim();
+    }
+    if (rest) parts.push(rest);
+    return parts;
+};
+
+/**
+ * Packs sentences into chunks of at most `maxChunkChars`. The first chunk is capped at
+ * `firstChunkChars` so its audio is ready quickly and playback can start early; a longer
+ * opening sentence is broken at a clause or word boundary to fit.
+ */
+export const chunkSpeechText = (text: string, firstChunkChars: number, maxChunkChars: number): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+
+    const pieces = splitSpeechSentences(text)
+        .flatMap(sentence => sentence.length > maxChunkChars ? splitLongSentence(sentence, maxChunkChars) : [sentence]);
+    if (pieces.length > 0 && pieces[0].length > firstChunkChars) {
+        // The remainder is shorter than the piece it came from, so it still fits a regular chunk
+        const [head, ...rest] = splitLongSentence(pieces[0], firstChunkChars);
+        pieces.splice(0, 1, head, rest.join(' '));
+    }
+
+    pieces.forEach(sentence => {
+        const limit = chunks.length === 0 ? firstChunkChars : maxChunkChars;
+        if (current && current.length + 1 + sentence.length > limit) {
+            chunks.push(current);
+            current = sentence;
+        } else {
+            current = current ? `${current} ${sentence}` : sentence;
+        }
+    });
+
+    if (current) chunks.push(current);
+    return chunks;
+};
@@ -0,0 +1,48 @@
+/**
+ * Publication time helpers. Articles carry an ISO `publishedAt`; everything
+ * human-readable is derived from it at render time.
+ */
+
+// Parses any date string a feed may carry (RFC 822, ISO 8601...) into ISO, or undefined if unusable
+export const toIsoDate = (raw: string | null | undefined): string | undefined => {
+    if (!raw) return undefined;
+    const time = new Date(raw.trim()).getTime();
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+export const formatRelativeTime = (iso: string, now: number = Date.now()): string => {
+    const time = new Date(iso).getTime();
+    if (isNaN(time)) return '';
+
+    const minutes = Math.floor((now - time) / 60000);
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes} min ago`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} hr ago`;
+
+    const days = Math.floor(hours / 24);
+    if (days === 1) return 'Yesterday';
+    if (days < 7) return `${days} days ago`;
+
+    return new Date(time).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// Display time for a card: relative when the real publication time is known, legacy text otherwise
+export const formatArticleTime = (article: { publishedAt?: string; timestamp: string }): string => {
+    return (article.publishedAt && formatRelativeTime(article.publishedAt)) || article.timestamp;
+};
+
+export const isWithinWindow = (iso: string | undefined, windowMs: number, now: number = Date.now()): boolean => {
+    if (!iso) return true; // Undated items can't be proven stale
+    return now - new Date(iso).getTime() <= windowMs;
+};
+
+// Newest first; undated items keep their relative order at the end
+export const sortByPublishedAt = <T extends { publishedAt?: string }>(items: T[]): T[] => {
+    const time = (item: T) => item.publishedAt ? new Date(item.publishedAt).getTime() : -Infinity;
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => (time(b.item) - time(a.item)) || (a.index - b.index))
+        .map(({ item }) => item);
+};
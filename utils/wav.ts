@@ -0,0 +1,93 @@
+/**
+ * Gemini TTS returns raw 16-bit little-endian PCM. Wrapping it in a WAV header lets the
+ * browser's own media stack play, seek and download it.
+ */
+
+export const PCM_SAMPLE_RATE = 24000;
+export const PCM_CHANNELS = 1;
+const BYTES_PER_SAMPLE = 2;
+
+// Tags written into downloaded narration files
+export interface AudioMetadata {
+    title: string;
+    source: string;   // Publisher, stored as the artist
+    language: string;
+    date?: string;    // ISO 8601
+}
+
+export const pcmDuration = (pcm: Uint8Array, sampleRate: number = PCM_SAMPLE_RATE, channels: number = PCM_CHANNELS): number => {
+    return pcm.length / (sampleRate * channels * BYTES_PER_SAMPLE);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+};
+
+// RIFF INFO list: INAM title, IART artist, ILNG language, ICRD creation date. Values are UTF-8.
+const infoChunk = (metadata: AudioMetadata): Uint8Array => {
+    const encoder = new TextEncoder();
+    const tags = [
+        ['INAM', metadata.title],
+        ['IART', metadata.source],
+        ['ILNG', metadata.language],
+        ['ICRD', metadata.date ? metadata.date.slice(0, 10) : '']
+    ].filter(([, value]) => value);
+
+    const entries = tags.map(([id, value]) => {
+        const text = encoder.encode(value);
+        const size = text.length + 1;                // NUL-terminated
+        const entry = new Uint8Array(8 + size + (size % 2)); // padded to an even length
+        entry.set(encoder.encode(id), 0);
+        new DataView(entry.buffer).setUint32(4, size, true);
+        entry.set(text, 8);
+        return entry;
+    });
+
+    const body = entries.reduce((sum, entry) => sum + entry.length, 4);
+    const list = new Uint8Array(8 + body);
+    const view = new DataView(list.buffer);
+    list.set(encoder.encode('LIST'), 0);
+    view.setUint32(4, body, true);
+    list.set(encoder.encode('INFO'), 8);
+    let offset = 12;
+    entries.forEach(entry => {
+        list.set(entry, offset);
+        offset += entry.length;
+    });
+    return list;
+};
+
+export const encodeWav = (
+    pcm: Uint8Array,
+    sampleRate: number = PCM_SAMPLE_RATE,
+    channels: number = PCM_CHANNELS,
+    metadata?: AudioMetadata
+): Blob => {
+    const info = metadata ? infoChunk(metadata) : new Uint8Array(0);
+    const header = new Uint8Array(44 + info.length);
+    const view = new DataView(header.buffer);
+    const writeAscii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeAscii(0, 'RIFF');
+    view.setUint32(4, 36 + info.length + pcm.length, true);
+    writeAscii(8, 'WAVE');
+    writeAscii(12, 'fmt ');
+    view.setUint32(16, 16, true);                                      // fmt chunk size
+    view.setUint16(20, 1, true);                                       // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * BYTES_PER_SAMPLE, true); // byte rate
+    view.setUint16(32, channels * BYTES_PER_SAMPLE, true);              // block align
+    view.setUint16(34, BYTES_PER_SAMPLE * 8, true);                     // bits per sample
+    header.set(info, 36);
+    writeAscii(36 + info.length, 'data');
+    view.setUint32(40 + info.length, pcm.length, true);
+    return new Blob([header, pcm as Uint8Array<ArrayBuffer>], { type: 'audio/wav' });
+};